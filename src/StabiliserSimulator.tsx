@@ -1,5 +1,6 @@
-import { useMemo, useState } from "react";
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
+import * as XLSX from "xlsx";
 import { Button } from "./components/ui/button";
 import { Input } from "./components/ui/input";
 import { Label } from "./components/ui/label";
@@ -19,208 +20,288 @@ import {
   PieChart,
   Pie,
   Cell,
+  ReferenceLine,
 } from "recharts";
+import { activityCosting, ActivityCosting, applySubstitutions, breakEven, computeCostsWithInventory, CostInputs, CostResult, cvpCurve, defaultChannelWaterfalls, FIXED_COST_POOLS, FixedCostPool, HedgeCover, landedCostBuildUp, materialsInInr, netRealisationFactor, OVERHEAD_MODELS, OverheadModel, PriceWaterfall, priceWaterfall, ProcurementPlan, SALES_CHANNELS, SalesChannel, skuFixedCost, VALUATION_METHODS, ValuationMethod } from "./lib/costing";
+import { CURRENCIES, Currency, DEFAULT_FX, formatMoney, FxSettings, inrRate } from "./lib/currency";
+import { addMonths, addMonthsToDate, formatMonth, toIsoDate } from "./lib/dates";
+import { backtestForecast, FORECAST_MODELS, ForecastModel, forecastSeries, PricePrediction } from "./lib/forecasting";
+import { backtestHedgePolicy, defaultHedgingStrategy, evaluateMaterialHedge, headlineHedgePath, HEDGE_BACKTEST_WARMUP, HEDGE_INSTRUMENTS, HEDGE_POLICIES, hedgeBookCover, hedgeBookExportRows, hedgeBookExposure, hedgedPrice, HedgeInstrument, HedgeInstrumentType, hedgeLots, HedgePolicy, HedgePosition, HedgeSummary, HedgingStrategy, isOpenPosition, loadHedgeBook, markToMarket, monthlyPriceSeries, nextPeriod, parseHedgeBookFile, persistHedgeBook, positionInstrument, recommendedHedgePercentage, strategyHedgeCover, summariseHedges } from "./lib/hedging";
+import { buildImportPreview, ColumnMapping, downloadSheets, guessColumnMapping, IMPORT_FIELDS, ImportField, importPriceRatios, ImportRow, materialExportRows, procurementExportRows } from "./lib/importExport";
+import { BOM, BomLine, IMPORT_LANDED_TERMS, LandedCostTerms, Material, MATERIALS, NO_SCRAP, Operation, Plant, PLANTS, PriceBreak, PRODUCTS, ROUTINGS, SubstitutionRule, SUBSTITUTIONS, Supplier, SUPPLIERS } from "./lib/masterData";
+import { computeMrpPlan, demandShares, monthLabel, phaseDemand } from "./lib/mrp";
+import { ALLOCATION_RULES, AllocationRule, computePortfolioCosts } from "./lib/portfolio";
+import { loadPriceHistory, mergePriceHistory, parsePriceHistoryFile, persistPriceHistory, PriceInterval, PricePoint, queryPriceHistory, samplePriceHistory } from "./lib/priceHistory";
+import { DEMAND_MODELS, demandElasticity, DemandModel, fitElasticity, optimisePrice } from "./lib/pricing";
+import { diffScenarioResults, loadScenarios, persistScenarios, SavedScenario, SCENARIO_SCHEMA_VERSION, scenarioCostInputs, ScenarioInputs } from "./lib/scenarios";
+import { costDrivers, DEFAULT_VOLATILITY, GOAL_SEEK_METRICS, goalSeek, GoalSeekMetric, MonteCarloSettings, runMonteCarlo, runSensitivity } from "./lib/simulation";
+import { scaleSupplierQuotes } from "./lib/sourcing";
+import { histogram } from "./lib/stats";
+import { newId } from "./lib/utils";
 
 /**
  * STABILISER COST SIMULATOR – Forecast + Inventory (Moving Average)
  * Beautiful vibrant glass design with white-blue theme
  */
 
-// Enhanced material interface with inventory data
-interface Material {
-  id: string;
-  name: string;
-  uom: string;
-  newPrice: number;
-  oldCost: number;
-  onHand: number;
-  bomQty: number;
+// Reporting currency and its INR rate; amounts stay INR everywhere else
+interface DisplayMoney {
+  currency: Currency;
+  inrPerUnit: number;
 }
 
-// Sample data with inventory information
-const MATERIALS: Material[] = [
-  { id: "M_COPPER", name: "Copper Wire (Electrolytic)", uom: "KG", newPrice: 880, oldCost: 800, onHand: 1000, bomQty: 2.5 },
-  { id: "M_ALUM", name: "Aluminium Wire", uom: "KG", newPrice: 260, oldCost: 255, onHand: 800, bomQty: 0 },
-  { id: "M_STEEL_LAM", name: "CRGO Steel Laminations", uom: "KG", newPrice: 155, oldCost: 150, onHand: 2000, bomQty: 3.0 },
-  { id: "M_ABS", name: "ABS Plastic", uom: "KG", newPrice: 180, oldCost: 178, onHand: 500, bomQty: 1.2 },
-  { id: "M_PCBA", name: "PCB Assembly", uom: "EA", newPrice: 360, oldCost: 350, onHand: 500, bomQty: 1.0 },
-  { id: "M_DISPLAY", name: "7-seg Display", uom: "EA", newPrice: 125, oldCost: 120, onHand: 300, bomQty: 1.0 },
-  { id: "M_SOLDER", name: "Solder 60/40", uom: "KG", newPrice: 1250, oldCost: 1200, onHand: 50, bomQty: 0.05 },
-  { id: "M_SWITCH", name: "Switch Kit", uom: "EA", newPrice: 52, oldCost: 50, onHand: 1000, bomQty: 1.0 },
-  { id: "M_PACK", name: "Packaging Set", uom: "SET", newPrice: 72, oldCost: 70, onHand: 800, bomQty: 1.0 },
-  { id: "M_RELAY", name: "Power Relay", uom: "EA", newPrice: 115, oldCost: 110, onHand: 400, bomQty: 2.0 },
-  { id: "M_MC", name: "Microcontroller", uom: "EA", newPrice: 95, oldCost: 90, onHand: 600, bomQty: 1.0 },
-];
+const MoneyContext = createContext<DisplayMoney>({ currency: 'INR', inrPerUnit: 1 });
 
-const PRODUCTS = {
-  P100: { name: "SB-1kVA-Digital", listPrice: 6500, targetMargin: 0.25, plant: "HYD1" },
-  P200: { name: "SB-2kVA-Digital", listPrice: 9000, targetMargin: 0.25, plant: "HYD1" },
-  P300: { name: "SB-0.5kVA-Refrigerator", listPrice: 3500, targetMargin: 0.25, plant: "HYD1" },
-};
-
-// Helper functions
-function rupees(n: number) {
-  return n.toLocaleString("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 });
-}
-
-interface ProcurementPlan {
-  id: string;
-  name: string;
-  uom: string;
-  grossReq: number;
-  onHand: number;
-  procureQty: number;
-  oldCost: number;
-  newPrice: number;
-  spend: number;
-  endQty: number;
-  avgCost: number;
-  bomQty: number;
+function moneyFormatter({ currency, inrPerUnit }: DisplayMoney) {
+  return (n: number) => formatMoney(n / inrPerUnit, currency);
 }
 
-// Copper Hedging Component Interface
-interface CopperHedgingProps {
-  copperPredictions: Array<{month: string, predictedPrice: number, confidence: number}>;
-  setCopperPredictions: React.Dispatch<React.SetStateAction<Array<{month: string, predictedPrice: number, confidence: number}>>>;
-  hedgingStrategy: {spotPercentage: number, hedgedPercentage: number, avgHedgedPrice: number};
-  setHedgingStrategy: React.Dispatch<React.SetStateAction<{spotPercentage: number, hedgedPercentage: number, avgHedgedPrice: number}>>;
-  isLoadingPredictions: boolean;
-  setIsLoadingPredictions: React.Dispatch<React.SetStateAction<boolean>>;
-  currentCopperPrice: number;
-  copperAvgCost: number;
-  copperBomQty: number;
+// Formats an INR amount in the reporting currency the simulator provides
+function useMoneyFormatter() {
+  return moneyFormatter(useContext(MoneyContext));
+}
+
+// Material Hedging Component Interface
+interface MaterialHedgingProps {
+  material: Material;
+  predictions: PricePrediction[];
+  setPredictions: (predictions: PricePrediction[]) => void;
+  hedgingStrategy: HedgingStrategy;
+  setHedgingStrategy: React.Dispatch<React.SetStateAction<HedgingStrategy>>;
+  priceHistory: Array<{ month: string; price: number }>;
+  avgCost: number;
+  bomQty: number;
   totalCost: number;
   listPrice: number;
-  forecastUnits: number;
+  exposureQty: number;  // purchases the hedge book leaves open
 }
 
-// Copper Hedging Component
-function CopperHedgingComponent({
-  copperPredictions,
-  setCopperPredictions,
+// Material Hedging Component
+function MaterialHedgingComponent({
+  material,
+  predictions,
+  setPredictions,
   hedgingStrategy,
   setHedgingStrategy,
-  isLoadingPredictions,
-  setIsLoadingPredictions,
-  currentCopperPrice,
-  copperAvgCost,
-  copperBomQty,
+  priceHistory,
+  avgCost,
+  bomQty,
   totalCost,
   listPrice,
-  forecastUnits
-}: CopperHedgingProps) {
-  
-  // Fetch copper price predictions
-  const fetchCopperPredictions = async () => {
+  exposureQty
+}: MaterialHedgingProps) {
+  const rupees = useMoneyFormatter();
+  const [forecastModel, setForecastModel] = useState<ForecastModel>('holtWinters');
+  const [horizon, setHorizon] = useState(3);
+  const [seed, setSeed] = useState(42);
+  const [intervalLevel, setIntervalLevel] = useState(0.8);
+  const [isLoadingPredictions, setIsLoadingPredictions] = useState(false);
+  const currentPrice = material.newPrice;
+  const uom = material.uom;
+
+  // History with today's price as the latest observation
+  const currentMonth = nextPeriod(priceHistory);
+  const series = useMemo(() => [...priceHistory.map(p => p.price), currentPrice], [priceHistory, currentPrice]);
+  const hasEnoughHistory = series.length >= 4;
+
+  const backtests = useMemo(() => {
+    const holdout = Math.max(1, Math.min(horizon, Math.floor(series.length / 3)));
+    return (Object.keys(FORECAST_MODELS) as ForecastModel[]).map(model => ({ model, holdout, ...backtestForecast(series, model, holdout) }));
+  }, [series, horizon]);
+
+  // Fetch price predictions
+  const fetchPredictions = async () => {
     setIsLoadingPredictions(true);
     try {
-      // Generate mock predictions for now - in production you'd call real API
-      const currentDate = new Date();
-      const predictions = [];
-      
-      for (let i = 1; i <= 3; i++) {
-        const futureDate = new Date(currentDate);
-        futureDate.setMonth(futureDate.getMonth() + i);
-        const monthName = futureDate.toLocaleDateString('en', { month: 'short', year: 'numeric' });
-        
-        // Simulate price volatility based on market trends
-        const baseVariation = (Math.random() - 0.5) * 0.15; // ±15% variation
-        const trendFactor = i * 0.02; // 2% monthly trend
-        const predictedPrice = currentCopperPrice * (1 + baseVariation + trendFactor);
-        const confidence = Math.max(60, 85 - (i * 8)); // Decreasing confidence over time
-        
-        predictions.push({
-          month: monthName,
-          predictedPrice: Math.round(predictedPrice),
-          confidence
-        });
-      }
+      const forecast = forecastSeries(series, { model: forecastModel, horizon, seed, level: intervalLevel })
+        .map((f, i) => ({
+          month: formatMonth(addMonths(currentMonth, i + 1)),
+          period: addMonths(currentMonth, i + 1),
+          predictedPrice: Math.round(f.point),
+          lower: Math.round(f.lower),
+          upper: Math.round(f.upper)
+        }));
       
-      setCopperPredictions(predictions);
+      setPredictions(forecast);
       
       // Calculate optimal hedging strategy
-      const avgFuturePrice = predictions.reduce((sum, p) => sum + p.predictedPrice, 0) / predictions.length;
-      const priceVolatility = Math.abs(avgFuturePrice - currentCopperPrice) / currentCopperPrice;
-      
-      // Recommend higher hedging percentage for high volatility
-      const recommendedHedgedPercentage = Math.min(80, Math.max(20, priceVolatility * 200));
+      const avgFuturePrice = forecast.reduce((sum, p) => sum + p.predictedPrice, 0) / forecast.length;
+      const recommendedHedgedPercentage = recommendedHedgePercentage(avgFuturePrice, currentPrice);
       const recommendedSpotPercentage = 100 - recommendedHedgedPercentage;
       
-      setHedgingStrategy({
+      // Strike the instrument at the average forecast, expiring with the horizon
+      setHedgingStrategy(prev => ({
         spotPercentage: Math.round(recommendedSpotPercentage),
         hedgedPercentage: Math.round(recommendedHedgedPercentage),
-        avgHedgedPrice: Math.round(avgFuturePrice)
-      });
+        instrument: {
+          ...prev.instrument,
+          strike: Math.round(avgFuturePrice),
+          expiry: forecast[forecast.length - 1].period
+        }
+      }));
     } catch (error) {
-      console.error('Error fetching copper predictions:', error);
+      console.error(`Error fetching ${material.name} predictions:`, error);
     } finally {
       setIsLoadingPredictions(false);
     }
   };
   
-  // Calculate margin impact using avg cost as baseline for consistency
+  const lots = hedgeLots(exposureQty, hedgingStrategy.hedgedPercentage, hedgingStrategy.instrument.lotSize);
+  const updateInstrument = (patch: Partial<HedgeInstrument>) =>
+    setHedgingStrategy(prev => ({ ...prev, instrument: { ...prev.instrument, ...patch } }));
+  const updateHedgedPercentage = (pct: number) => {
+    const hedged = Math.min(100, Math.max(0, pct));
+    setHedgingStrategy(prev => ({ ...prev, hedgedPercentage: hedged, spotPercentage: 100 - hedged }));
+  };
+
+  // Material cost per unit and margin under each path, against the avg cost baseline
+  const pathResults = useMemo(() => evaluateMaterialHedge(hedgingStrategy, predictions, {
+    currentMonth,
+    currentPrice,
+    avgCost,
+    bomQty,
+    exposureQty
+  }).map(r => ({
+    ...r,
+    totalCostWithHedging: totalCost + r.costDifference,
+    marginPct: listPrice > 0 ? ((listPrice - totalCost - r.costDifference) / listPrice) * 100 : 0,
+    unhedgedMarginPct: listPrice > 0 ? ((listPrice - totalCost - r.unhedgedCostDifference) / listPrice) * 100 : 0
+  })), [hedgingStrategy, predictions, currentMonth, currentPrice, avgCost, bomQty, exposureQty, totalCost, listPrice]);
+
+  // Margin impact under the forecast path, or today's price before a forecast is run
   const calculateMarginImpact = () => {
-    const currentCopperCostPerUnit = copperBomQty * copperAvgCost;
-    const hedgedCopperCost = copperBomQty * ((hedgingStrategy.spotPercentage / 100) * currentCopperPrice + (hedgingStrategy.hedgedPercentage / 100) * hedgingStrategy.avgHedgedPrice);
-    const costDifference = hedgedCopperCost - currentCopperCostPerUnit;
-    const totalCostWithHedging = totalCost + costDifference;
-    const newMargin = listPrice - totalCostWithHedging;
-    const newMarginPct = listPrice > 0 ? (newMargin / listPrice) * 100 : 0;
+    const headline = headlineHedgePath(pathResults);
     const currentMarginPct = listPrice > 0 ? ((listPrice - totalCost) / listPrice) * 100 : 0;
-    const marginImpact = newMarginPct - currentMarginPct;
-    
     return {
-      costDifference,
-      newMarginPct,
-      marginImpact,
-      totalCostWithHedging
+      pathLabel: headline.label,
+      effectivePrice: headline.effectivePrice,
+      costDifference: headline.costDifference,
+      newMarginPct: headline.marginPct,
+      marginImpact: headline.marginPct - currentMarginPct,
+      totalCostWithHedging: headline.totalCostWithHedging
     };
   };
-  
+
   const marginAnalysis = calculateMarginImpact();
+
+  // Payoff diagram: effective price across spot settlements of ±40%
+  const payoffData = useMemo(() => Array.from({ length: 17 }, (_, i) => {
+    const spot = Math.round(currentPrice * (0.6 + i * 0.05));
+    const instrumentPrice = hedgedPrice(hedgingStrategy.instrument, spot);
+    return {
+      spot,
+      unhedged: spot,
+      instrument: instrumentPrice,
+      blended: lots.hedgeRatio * instrumentPrice + (1 - lots.hedgeRatio) * spot
+    };
+  }), [currentPrice, hedgingStrategy.instrument, lots.hedgeRatio]);
+
+  const [backtestPolicy, setBacktestPolicy] = useState<HedgePolicy>('fixed');
+  const [backtestTenor, setBacktestTenor] = useState(3);
+  const backtest = useMemo(() => backtestHedgePolicy(priceHistory, {
+    policy: backtestPolicy,
+    hedgedPercentage: hedgingStrategy.hedgedPercentage,
+    tenorMonths: backtestTenor,
+    model: forecastModel
+  }, {
+    instrument: hedgingStrategy.instrument,
+    currentPrice,
+    exposureQty,
+    bomQty,
+    otherCost: totalCost - bomQty * avgCost,
+    listPrice
+  }), [priceHistory, backtestPolicy, hedgingStrategy, backtestTenor, forecastModel, currentPrice, exposureQty, bomQty, totalCost, avgCost, listPrice]);
   
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h3 className="text-xl font-semibold text-blue-800">⚖️ Copper Hedging Strategy</h3>
+        <h3 className="text-xl font-semibold text-blue-800">⚖️ {material.name} Hedging Strategy</h3>
         <Button 
-          onClick={fetchCopperPredictions} 
-          disabled={isLoadingPredictions}
+          onClick={fetchPredictions} 
+          disabled={isLoadingPredictions || !hasEnoughHistory}
           className="bg-blue-600 hover:bg-blue-700 text-white"
         >
           {isLoadingPredictions ? '🔄 Loading...' : '📊 Get Market Forecast'}
         </Button>
       </div>
+
+      {!hasEnoughHistory && (
+        <div className="p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+          At least three months of {material.name} prices are needed in the price history store to fit a forecast.
+        </div>
+      )}
+
+      {/* Forecast settings */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label className="text-sm text-blue-700">Model</Label>
+            <Select value={forecastModel} onValueChange={(v) => setForecastModel(v as ForecastModel)}>
+              <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FORECAST_MODELS).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <InputField label="Horizon (months)" value={horizon} onChange={(v) => setHorizon(Math.min(24, Math.max(1, Math.round(v))))} />
+          <InputField label="Seed" value={seed} onChange={(v) => setSeed(Math.round(v))} />
+          <InputField label="Interval (%)" value={Math.round(intervalLevel * 100)} onChange={(v) => setIntervalLevel(Math.min(99, Math.max(50, v)) / 100)} />
+        </div>
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-2 px-2 text-left">Backtest ({backtests[0]?.holdout}-month holdout)</th>
+                <th className="py-2 px-2 text-right">MAPE</th>
+                <th className="py-2 px-2 text-right">RMSE</th>
+              </tr>
+            </thead>
+            <tbody>
+              {backtests.map(b => (
+                <tr key={b.model} className={`border-b border-blue-100 ${b.model === forecastModel ? 'font-semibold' : ''}`}>
+                  <td className="py-2 px-2">{FORECAST_MODELS[b.model]}</td>
+                  <td className="py-2 px-2 text-right">{Number.isFinite(b.mape) ? `${(b.mape * 100).toFixed(2)}%` : '—'}</td>
+                  <td className="py-2 px-2 text-right">{Number.isFinite(b.rmse) ? rupees(b.rmse) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
       
-      {/* Current Copper Info */}
+      {/* Current Material Info */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="bg-white/40 backdrop-blur-sm rounded-xl p-4">
-          <div className="text-sm text-gray-600">Current Copper Price</div>
-          <div className="text-2xl font-bold text-orange-600">{rupees(currentCopperPrice)}/KG</div>
+          <div className="text-sm text-gray-600">Current Price</div>
+          <div className="text-2xl font-bold text-orange-600">{rupees(currentPrice)}/{uom}</div>
         </div>
         <div className="bg-white/40 backdrop-blur-sm rounded-xl p-4">
           <div className="text-sm text-gray-600">BOM Quantity</div>
-          <div className="text-2xl font-bold text-blue-600">{copperBomQty} KG/unit</div>
+          <div className="text-2xl font-bold text-blue-600">{bomQty} {uom}/unit</div>
         </div>
         <div className="bg-white/40 backdrop-blur-sm rounded-xl p-4">
-          <div className="text-sm text-gray-600">Total Copper Need (forecast)</div>
-          <div className="text-2xl font-bold text-purple-600">{(copperBomQty * forecastUnits).toLocaleString()} KG</div>
+          <div className="text-sm text-gray-600">Open Exposure (to buy)</div>
+          <div className="text-2xl font-bold text-purple-600">{exposureQty.toLocaleString(undefined, { maximumFractionDigits: 0 })} {uom}</div>
         </div>
       </div>
       
       {/* Price Predictions */}
-      {copperPredictions.length > 0 && (
+      {predictions.length > 0 && (
         <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-          <h4 className="text-lg font-semibold text-gray-800 mb-4">📈 3-Month Price Forecast</h4>
+          <h4 className="text-lg font-semibold text-gray-800 mb-4">📈 {predictions.length}-Month Price Forecast ({FORECAST_MODELS[forecastModel]})</h4>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {copperPredictions.map((prediction, index) => (
+            {predictions.map((prediction, index) => (
               <div key={index} className="bg-white/60 rounded-lg p-4">
                 <div className="text-sm font-medium text-gray-700">{prediction.month}</div>
-                <div className="text-xl font-bold text-green-600">{rupees(prediction.predictedPrice)}/KG</div>
-                <div className="text-xs text-gray-500">Confidence: {prediction.confidence}%</div>
-                <div className={`text-sm ${prediction.predictedPrice > currentCopperPrice ? 'text-red-500' : 'text-green-500'}`}>
-                  {prediction.predictedPrice > currentCopperPrice ? '↗' : '↘'} 
-                  {Math.abs(((prediction.predictedPrice - currentCopperPrice) / currentCopperPrice) * 100).toFixed(1)}%
+                <div className="text-xl font-bold text-green-600">{rupees(prediction.predictedPrice)}/{uom}</div>
+                <div className="text-xs text-gray-500">{Math.round(intervalLevel * 100)}% PI: {rupees(prediction.lower)} – {rupees(prediction.upper)}</div>
+                <div className={`text-sm ${prediction.predictedPrice > currentPrice ? 'text-red-500' : 'text-green-500'}`}>
+                  {prediction.predictedPrice > currentPrice ? '↗' : '↘'} 
+                  {Math.abs(((prediction.predictedPrice - currentPrice) / currentPrice) * 100).toFixed(1)}%
                 </div>
               </div>
             ))}
@@ -228,95 +309,315 @@ function CopperHedgingComponent({
         </div>
       )}
       
-      {/* Hedging Strategy Recommendation */}
-      {copperPredictions.length > 0 && (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-            <h4 className="text-lg font-semibold text-gray-800 mb-4">🎯 Recommended Hedging Strategy</h4>
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <span>Spot Market:</span>
-                <span className="font-semibold text-blue-600">{hedgingStrategy.spotPercentage}%</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span>Hedge (Futures):</span>
-                <span className="font-semibold text-orange-600">{hedgingStrategy.hedgedPercentage}%</span>
+      {/* Hedging Strategy */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+          <h4 className="text-lg font-semibold text-gray-800 mb-4">🎯 {predictions.length > 0 ? 'Recommended ' : ''}Hedging Strategy</h4>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-sm text-blue-700">Instrument</Label>
+                <Select value={hedgingStrategy.instrument.type} onValueChange={(v) => updateInstrument({ type: v as HedgeInstrumentType })}>
+                  <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(HEDGE_INSTRUMENTS).map(([id, label]) => (
+                      <SelectItem key={id} value={id}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              <div className="flex justify-between items-center">
-                <span>Avg Hedged Price:</span>
-                <span className="font-semibold text-purple-600">{rupees(hedgingStrategy.avgHedgedPrice)}/KG</span>
+              <div className="space-y-1">
+                <Label className="text-sm text-blue-700">Settlement</Label>
+                <Select value={hedgingStrategy.instrument.settlement} onValueChange={(v) => updateInstrument({ settlement: v as HedgeInstrument['settlement'] })}>
+                  <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="physical">Physical</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-              
-              {/* Visual representation */}
-              <div className="mt-4">
-                <div className="text-sm text-gray-600 mb-2">Strategy Split:</div>
-                <div className="flex rounded-lg overflow-hidden h-6">
-                  <div 
-                    className="bg-blue-500 flex items-center justify-center text-white text-xs font-medium"
-                    style={{width: `${hedgingStrategy.spotPercentage}%`}}
-                  >
-                    {hedgingStrategy.spotPercentage > 20 ? `Spot ${hedgingStrategy.spotPercentage}%` : ''}
-                  </div>
-                  <div 
-                    className="bg-orange-500 flex items-center justify-center text-white text-xs font-medium"
-                    style={{width: `${hedgingStrategy.hedgedPercentage}%`}}
-                  >
-                    {hedgingStrategy.hedgedPercentage > 20 ? `Hedge ${hedgingStrategy.hedgedPercentage}%` : ''}
-                  </div>
-                </div>
+              <InputField
+                label={hedgingStrategy.instrument.type === 'collar' ? `Cap Strike (₹/${uom})` : hedgingStrategy.instrument.type === 'call' ? `Strike (₹/${uom})` : `Contract Price (₹/${uom})`}
+                value={hedgingStrategy.instrument.strike}
+                onChange={(v) => updateInstrument({ strike: Math.max(0, v) })}
+              />
+              {hedgingStrategy.instrument.type === 'collar' && (
+                <InputField label={`Floor Strike (₹/${uom})`} value={hedgingStrategy.instrument.floorStrike} onChange={(v) => updateInstrument({ floorStrike: Math.max(0, v) })} />
+              )}
+              {hedgingStrategy.instrument.type !== 'future' && (
+                <InputField
+                  label={hedgingStrategy.instrument.type === 'collar' ? `Net Premium (₹/${uom})` : `Premium (₹/${uom})`}
+                  value={hedgingStrategy.instrument.premium}
+                  onChange={(v) => updateInstrument({ premium: v })}
+                />
+              )}
+              <InputField label={`Lot Size (${uom})`} value={hedgingStrategy.instrument.lotSize} onChange={(v) => updateInstrument({ lotSize: Math.max(1, Math.round(v)) })} />
+              <div className="space-y-1">
+                <Label className="text-sm text-blue-700">Expiry</Label>
+                <Input
+                  type="month"
+                  value={hedgingStrategy.instrument.expiry}
+                  onChange={(e) => e.target.value && updateInstrument({ expiry: e.target.value })}
+                  className="bg-white/50 border-blue-200 focus:border-blue-400"
+                />
               </div>
+              <InputField label="Target Hedge (%)" value={hedgingStrategy.hedgedPercentage} onChange={updateHedgedPercentage} />
             </div>
-          </div>
-          
-          {/* Margin Impact Analysis */}
-          <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-            <h4 className="text-lg font-semibold text-gray-800 mb-4">💰 Margin Impact Analysis</h4>
-            <div className="space-y-3">
-              <div className="flex justify-between">
-                <span>Cost Difference:</span>
-                <span className={`font-semibold ${marginAnalysis.costDifference >= 0 ? 'text-red-600' : 'text-green-600'}`}>
-                  {marginAnalysis.costDifference >= 0 ? '+' : ''}{rupees(marginAnalysis.costDifference)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span>New Total Cost:</span>
-                <span className="font-semibold">{rupees(marginAnalysis.totalCostWithHedging)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>New Margin %:</span>
-                <span className="font-semibold text-blue-600">{marginAnalysis.newMarginPct.toFixed(1)}%</span>
-              </div>
-              <div className="flex justify-between border-t pt-2">
-                <span>Margin Impact:</span>
-                <span className={`font-bold text-lg ${marginAnalysis.marginImpact >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {marginAnalysis.marginImpact >= 0 ? '+' : ''}{marginAnalysis.marginImpact.toFixed(2)}%
-                </span>
+
+            {hedgingStrategy.instrument.type === 'collar' && hedgingStrategy.instrument.floorStrike > hedgingStrategy.instrument.strike && (
+              <div className="p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+                The collar floor is above the cap; the hedged price will sit at the cap.
               </div>
+            )}
+
+            <div className="flex justify-between items-center">
+              <span>Lots ({hedgingStrategy.instrument.lotSize.toLocaleString()} {uom} each):</span>
+              <span className="font-semibold text-orange-600">{lots.lots} = {lots.hedgedQty.toLocaleString()} {uom}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span>Actual Hedge Ratio:</span>
+              <span className="font-semibold text-purple-600">{(lots.hedgeRatio * 100).toFixed(1)}%</span>
             </div>
             
-            <div className="mt-4 p-3 bg-blue-50 rounded-lg">
-              <div className="text-sm text-blue-800">
-                💡 <strong>Strategy Insight:</strong><br/>
-                {marginAnalysis.marginImpact >= 0 
-                  ? 'This hedging strategy could improve margins by protecting against unfavorable price movements.' 
-                  : 'This hedging strategy may reduce margins compared to current pricing, but provides price certainty and risk mitigation.'}
+            {/* Visual representation */}
+            <div className="mt-4">
+              <div className="text-sm text-gray-600 mb-2">Strategy Split (after lot rounding):</div>
+              <div className="flex rounded-lg overflow-hidden h-6">
+                <div 
+                  className="bg-blue-500 flex items-center justify-center text-white text-xs font-medium"
+                  style={{width: `${(1 - lots.hedgeRatio) * 100}%`}}
+                >
+                  {lots.hedgeRatio < 0.8 ? `Spot ${((1 - lots.hedgeRatio) * 100).toFixed(0)}%` : ''}
+                </div>
+                <div 
+                  className="bg-orange-500 flex items-center justify-center text-white text-xs font-medium"
+                  style={{width: `${lots.hedgeRatio * 100}%`}}
+                >
+                  {lots.hedgeRatio > 0.2 ? `Hedge ${(lots.hedgeRatio * 100).toFixed(0)}%` : ''}
+                </div>
               </div>
             </div>
           </div>
         </div>
-      )}
+        
+        {/* Margin Impact Analysis */}
+        <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+          <h4 className="text-lg font-semibold text-gray-800 mb-4">💰 Margin Impact Analysis</h4>
+          <div className="text-sm text-gray-600 mb-3">Price path: {marginAnalysis.pathLabel}</div>
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <span>Effective Price:</span>
+              <span className="font-semibold">{rupees(marginAnalysis.effectivePrice)}/{uom}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Cost Difference:</span>
+              <span className={`font-semibold ${marginAnalysis.costDifference >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {marginAnalysis.costDifference >= 0 ? '+' : ''}{rupees(marginAnalysis.costDifference)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>New Total Cost:</span>
+              <span className="font-semibold">{rupees(marginAnalysis.totalCostWithHedging)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>New Margin %:</span>
+              <span className="font-semibold text-blue-600">{marginAnalysis.newMarginPct.toFixed(1)}%</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span>Margin Impact:</span>
+              <span className={`font-bold text-lg ${marginAnalysis.marginImpact >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {marginAnalysis.marginImpact >= 0 ? '+' : ''}{marginAnalysis.marginImpact.toFixed(2)}%
+              </span>
+            </div>
+          </div>
+          
+          <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+            <div className="text-sm text-blue-800">
+              💡 <strong>Strategy Insight:</strong><br/>
+              {marginAnalysis.marginImpact >= 0 
+                ? 'This hedging strategy could improve margins by protecting against unfavorable price movements.' 
+                : 'This hedging strategy may reduce margins compared to current pricing, but provides price certainty and risk mitigation.'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Price path outcomes */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">🧭 Outcome by Price Path</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Path</th>
+                <th className="py-3 px-2 text-right">Avg Spot</th>
+                <th className="py-3 px-2 text-right">Effective ₹/{uom}</th>
+                <th className="py-3 px-2 text-right">Material ₹/Unit</th>
+                <th className="py-3 px-2 text-right">Hedge P&L</th>
+                <th className="py-3 px-2 text-right">Margin % (Unhedged)</th>
+                <th className="py-3 px-2 text-right">Margin % (Hedged)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pathResults.map(r => (
+                <tr key={r.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                  <td className="py-3 px-2 font-medium">{r.label}</td>
+                  <td className="py-3 px-2 text-right">{rupees(r.spotPrice)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(r.effectivePrice)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(r.costPerUnit)}</td>
+                  <td className={`py-3 px-2 text-right ${r.hedgePnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{rupees(r.hedgePnl)}</td>
+                  <td className="py-3 px-2 text-right">{r.unhedgedMarginPct.toFixed(1)}%</td>
+                  <td className="py-3 px-2 text-right font-semibold text-blue-600">{r.marginPct.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Payoff diagram */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">📐 Payoff at Settlement ({HEDGE_INSTRUMENTS[hedgingStrategy.instrument.type]})</h4>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={payoffData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="spot" tickFormatter={(v) => rupees(Number(v))} />
+            <YAxis domain={['auto', 'auto']} tickFormatter={(v) => rupees(Number(v))} />
+            <Tooltip formatter={(value) => `${rupees(Number(value))}/${uom}`} labelFormatter={(label) => `Spot ${rupees(Number(label))}/${uom}`} />
+            <Legend />
+            <Line type="monotone" dataKey="unhedged" stroke="#6B7280" strokeDasharray="5 5" dot={false} name="Unhedged" />
+            <Line type="monotone" dataKey="instrument" stroke="#F97316" strokeWidth={2} dot={false} name="Hedged Volume" />
+            <Line type="monotone" dataKey="blended" stroke="#3B82F6" strokeWidth={3} dot={false} name="Blended Cost" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
       
+      {/* Hedge effectiveness backtest */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+        <h4 className="text-lg font-semibold text-gray-800">🔁 Hedge Effectiveness Backtest</h4>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-sm text-blue-700">Policy</Label>
+            <Select value={backtestPolicy} onValueChange={(v) => setBacktestPolicy(v as HedgePolicy)}>
+              <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(HEDGE_POLICIES).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {backtestPolicy === 'fixed' && (
+            <InputField label="Hedge (%)" value={hedgingStrategy.hedgedPercentage} onChange={updateHedgedPercentage} />
+          )}
+          <InputField label="Hedge Tenor (months)" value={backtestTenor} onChange={(v) => setBacktestTenor(Math.min(12, Math.max(1, Math.round(v))))} />
+        </div>
+
+        {backtest.months.length === 0 ? (
+          <div className="p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+            The backtest needs at least {HEDGE_BACKTEST_WARMUP + backtestTenor} months of {material.name} prices in the price history store.
+          </div>
+        ) : (
+          <>
+            <div className="text-sm text-gray-600">
+              {backtest.months.length} months replayed ({formatMonth(backtest.months[0].month)} – {formatMonth(backtest.months[backtest.months.length - 1].month)}),
+              {' '}{HEDGE_INSTRUMENTS[hedgingStrategy.instrument.type]}, avg hedge {backtest.avgHedgedPercentage.toFixed(0)}%
+              {backtestPolicy === 'auto' ? ` (${FORECAST_MODELS[forecastModel]})` : ''}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                  <tr>
+                    <th className="py-3 px-2 text-left">Metric</th>
+                    <th className="py-3 px-2 text-right">Unhedged</th>
+                    <th className="py-3 px-2 text-right">{HEDGE_POLICIES[backtestPolicy]}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2">Avg Realised Material Cost/Unit</td>
+                    <td className="py-3 px-2 text-right">{rupees(backtest.unhedged.avgCostPerUnit)}</td>
+                    <td className="py-3 px-2 text-right">{rupees(backtest.hedged.avgCostPerUnit)}</td>
+                  </tr>
+                  <tr className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2">Avg Margin %</td>
+                    <td className="py-3 px-2 text-right">{backtest.unhedged.avgMarginPct.toFixed(1)}%</td>
+                    <td className="py-3 px-2 text-right">{backtest.hedged.avgMarginPct.toFixed(1)}%</td>
+                  </tr>
+                  <tr className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2">Margin Volatility (σ)</td>
+                    <td className="py-3 px-2 text-right">{backtest.unhedged.marginVolatility.toFixed(2)} pp</td>
+                    <td className="py-3 px-2 text-right">{backtest.hedged.marginVolatility.toFixed(2)} pp</td>
+                  </tr>
+                  <tr className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2">Worst Month</td>
+                    <td className="py-3 px-2 text-right">{backtest.unhedged.worstMonth && formatMonth(backtest.unhedged.worstMonth)}: {backtest.unhedged.worstMarginPct.toFixed(1)}%</td>
+                    <td className="py-3 px-2 text-right">{backtest.hedged.worstMonth && formatMonth(backtest.hedged.worstMonth)}: {backtest.hedged.worstMarginPct.toFixed(1)}%</td>
+                  </tr>
+                  <tr className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2">Cumulative Hedge P&L (₹/unit)</td>
+                    <td className="py-3 px-2 text-right">—</td>
+                    <td className={`py-3 px-2 text-right font-semibold ${backtest.totalHedgePnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{rupees(backtest.totalHedgePnl)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ResponsiveContainer width="100%" height={250}>
+                <LineChart data={backtest.months.map(m => ({ month: formatMonth(m.month), unhedged: m.unhedgedMarginPct, hedged: m.marginPct }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" fontSize={12} />
+                  <YAxis domain={['auto', 'auto']} tickFormatter={(v) => `${Number(v).toFixed(0)}%`} />
+                  <Tooltip formatter={(value) => `${Number(value).toFixed(2)}%`} />
+                  <Legend />
+                  <Line type="monotone" dataKey="unhedged" stroke="#6B7280" strokeDasharray="5 5" dot={false} name="Unhedged Margin" />
+                  <Line type="monotone" dataKey="hedged" stroke="#3B82F6" strokeWidth={2} dot={false} name="Hedged Margin" />
+                </LineChart>
+              </ResponsiveContainer>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={backtest.months.map(m => ({ month: formatMonth(m.month), pnl: m.hedgePnl }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" fontSize={12} />
+                  <YAxis tickFormatter={(v) => rupees(Number(v))} />
+                  <Tooltip formatter={(value) => `${rupees(Number(value))}/unit`} />
+                  <Bar dataKey="pnl" name="Hedge P&L">
+                    {backtest.months.map(m => (
+                      <Cell key={m.month} fill={m.hedgePnl >= 0 ? '#10B981' : '#EF4444'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+
       {/* Charts for price trends */}
-      {copperPredictions.length > 0 && (
+      {predictions.length > 0 && (
         <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
           <h4 className="text-lg font-semibold text-gray-800 mb-4">📊 Price Trend Analysis</h4>
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={[{month: 'Current', price: currentCopperPrice}, ...copperPredictions.map(p => ({month: p.month, price: p.predictedPrice}))]}>
+            <LineChart data={[
+              ...priceHistory.slice(-12).map(p => ({month: formatMonth(p.month), actual: p.price})),
+              {month: 'Current', actual: currentPrice, price: currentPrice, lower: currentPrice, upper: currentPrice},
+              ...predictions.map(p => ({month: p.month, price: p.predictedPrice, lower: p.lower, upper: p.upper}))
+            ]}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="month" />
-              <YAxis />
-              <Tooltip formatter={(value) => [rupees(Number(value)), 'Price/KG']} />
-              <Line type="monotone" dataKey="price" stroke="#3B82F6" strokeWidth={3} dot={{fill: '#3B82F6', strokeWidth: 2, r: 5}} />
+              <YAxis domain={['auto', 'auto']} />
+              <Tooltip formatter={(value) => rupees(Number(value))} />
+              <Legend />
+              <Line type="monotone" dataKey="actual" stroke="#6B7280" strokeWidth={2} dot={false} name="History" />
+              <Line type="monotone" dataKey="price" stroke="#3B82F6" strokeWidth={3} dot={{fill: '#3B82F6', strokeWidth: 2, r: 5}} name="Forecast" />
+              <Line type="monotone" dataKey="lower" stroke="#93C5FD" strokeDasharray="5 5" dot={false} name="Lower" />
+              <Line type="monotone" dataKey="upper" stroke="#93C5FD" strokeDasharray="5 5" dot={false} name="Upper" />
             </LineChart>
           </ResponsiveContainer>
         </div>
@@ -325,119 +626,2456 @@ function CopperHedgingComponent({
   );
 }
 
-function computeCostsWithInventory({
-  sku,
+// MRP Component
+function MrpComponent({
+  monthlyDemand,
+  setMonthlyDemand,
   forecastUnits,
+  mrp
+}: {
+  monthlyDemand: number[];
+  setMonthlyDemand: (units: number[]) => void;
+  forecastUnits: number;
+  mrp: ReturnType<typeof computeMrpPlan>;
+}) {
+  const rupees = useMoneyFormatter();
+  const [materialId, setMaterialId] = useState(mrp.materialPlans[0]?.id ?? "");
+  const selected = mrp.materialPlans.find(p => p.id === materialId) ?? mrp.materialPlans[0];
+
+  const unitCostData = mrp.months.map(m => ({
+    month: m.month,
+    unitCost: Math.round(m.totalCost),
+    margin: Number((m.marginPct * 100).toFixed(1))
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-cyan-800">📅 Monthly MRP</h3>
+        <Button
+          onClick={() => setMonthlyDemand(phaseDemand(forecastUnits, monthlyDemand.map(() => 1 / monthlyDemand.length)))}
+          variant="outline"
+          className="border-cyan-300 text-cyan-700 hover:bg-cyan-50"
+        >
+          ↔️ Spread Forecast Units
+        </Button>
+      </div>
+
+      {/* Demand forecast per month */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">📈 Demand Forecast (units)</h4>
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+          {monthlyDemand.map((units, t) => (
+            <InputField
+              key={t}
+              label={monthLabel(t + 1)}
+              value={units}
+              onChange={(v) => setMonthlyDemand(monthlyDemand.map((u, i) => i === t ? v : u))}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Unit cost per month */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">💰 Unit Cost by Month</h4>
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={unitCostData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis dataKey="month" fontSize={12} />
+            <YAxis yAxisId="cost" fontSize={12} tickFormatter={(v) => rupees(Number(v))} width={80} />
+            <YAxis yAxisId="margin" orientation="right" fontSize={12} />
+            <Tooltip formatter={(value, name) => [name === 'Margin %' ? `${Number(value).toFixed(1)}%` : rupees(Number(value)), name]} />
+            <Legend />
+            <Line yAxisId="cost" type="monotone" dataKey="unitCost" stroke="#3B82F6" strokeWidth={3} name="Unit Cost" />
+            <Line yAxisId="margin" type="monotone" dataKey="margin" stroke="#10B981" strokeWidth={3} name="Margin %" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Time series per material */}
+      {selected && (
+        <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h4 className="text-lg font-semibold text-gray-800">📦 Material Plan</h4>
+            <Select value={selected.id} onValueChange={setMaterialId}>
+              <SelectTrigger className="w-64 bg-white/50 border-blue-200 focus:border-blue-400">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {mrp.materialPlans.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="text-sm text-gray-600 mb-3">
+            Lead time {selected.leadTimeMonths} month(s) | Safety stock {selected.safetyStock.toLocaleString()} {selected.uom} | Total procure {selected.procureQty.toLocaleString(undefined, { maximumFractionDigits: 0 })} {selected.uom} ({rupees(selected.spend)} at {rupees(selected.purchasePrice)}/{selected.uom})
+          </div>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={selected.periods}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+              <XAxis dataKey="month" fontSize={12} />
+              <YAxis fontSize={12} />
+              <Tooltip formatter={(value) => Number(value).toLocaleString(undefined, { maximumFractionDigits: 0 })} />
+              <Legend />
+              <Bar dataKey="grossReq" fill="#F59E0B" name="Gross Req" />
+              <Bar dataKey="plannedReceipt" fill="#10B981" name="Planned Receipt" />
+              <Bar dataKey="projectedOnHand" fill="#3B82F6" name="Projected On-hand" />
+            </BarChart>
+          </ResponsiveContainer>
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+              <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                <tr>
+                  <th className="py-3 px-2 text-left">Month</th>
+                  <th className="py-3 px-2 text-right">Gross Req</th>
+                  <th className="py-3 px-2 text-right">Order Release</th>
+                  <th className="py-3 px-2 text-right">Receipt</th>
+                  <th className="py-3 px-2 text-right">Projected On-hand</th>
+                  <th className="py-3 px-2 text-right">Issue Cost</th>
+                  <th className="py-3 px-2 text-right">Shortage</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.periods.map(p => (
+                  <tr key={p.month} className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2 font-medium">{p.month}</td>
+                    <td className="py-3 px-2 text-right">{p.grossReq.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    <td className="py-3 px-2 text-right">{p.plannedRelease.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    <td className="py-3 px-2 text-right">{p.plannedReceipt.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    <td className="py-3 px-2 text-right">{p.projectedOnHand.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                    <td className="py-3 px-2 text-right font-semibold text-purple-600">{rupees(p.avgCost)}</td>
+                    <td className={`py-3 px-2 text-right ${p.shortage > 0 ? 'text-red-600 font-semibold' : ''}`}>{p.shortage.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Import / Export Component
+function ImportExportComponent({
+  sku,
   materials,
-  listPriceOverride,
-  targetMarginOverride,
-  laborPct,
-  energyPct,
-  freight,
-  warrantyPct,
+  bomLines,
+  procurementPlan,
+  fx,
+  onApply
 }: {
   sku: keyof typeof PRODUCTS;
-  forecastUnits: number;
   materials: Material[];
-  listPriceOverride?: number;
-  targetMarginOverride?: number;
-  laborPct: number;
-  energyPct: number;
-  freight: number;
-  warrantyPct: number;
+  bomLines: BomLine[];
+  procurementPlan: ProcurementPlan[];
+  fx: FxSettings;
+  onApply: (rows: ImportRow[]) => void;
 }) {
-  const product = PRODUCTS[sku];
-  const listPrice = listPriceOverride ?? product.listPrice;
-  const targetMargin = targetMarginOverride ?? product.targetMargin;
-
-  // Calculate procurement plan with moving average costs
-  const procurementPlan: ProcurementPlan[] = materials.map(m => {
-    const grossReq = m.bomQty * forecastUnits;
-    const onHand = m.onHand;
-    const procureQty = Math.max(0, grossReq - onHand);
-    const spend = procureQty * m.newPrice;
-    const endQty = onHand + procureQty;
-    const avgCost = endQty > 0 ? ((onHand * m.oldCost + procureQty * m.newPrice) / endQty) : m.newPrice;
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [readError, setReadError] = useState("");
 
-    return {
-      id: m.id,
-      name: m.name,
-      uom: m.uom,
-      grossReq,
-      onHand,
-      procureQty,
-      oldCost: m.oldCost,
-      newPrice: m.newPrice,
-      spend,
-      endQty,
-      avgCost,
-      bomQty: m.bomQty
-    };
+  const preview = useMemo(
+    () => mapping ? buildImportPreview(rows, mapping, materials, bomLines, fx) : [],
+    [rows, mapping, materials, bomLines, fx]
+  );
+  const applicable = preview.filter(r => r.status === 'new' || r.status === 'changed');
+  const invalidCount = preview.filter(r => r.status === 'invalid').length;
+
+  const readFile = async (file: File) => {
+    setReadError("");
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "" });
+      const nextHeaders = headerRow.map(String);
+      setFileName(file.name);
+      setHeaders(nextHeaders);
+      setRows(dataRows.filter(r => r.some(c => String(c).trim() !== "")));
+      setMapping(guessColumnMapping(nextHeaders));
+    } catch (error) {
+      console.error('Error reading material file:', error);
+      setReadError(`Could not read ${file.name}. Use a CSV or XLSX file with a header row.`);
+    }
+  };
+
+  const reset = () => {
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+  };
+
+  const statusClasses = {
+    new: "text-green-600",
+    changed: "text-orange-600",
+    unchanged: "text-gray-500",
+    invalid: "text-red-600"
+  };
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-xl font-semibold text-indigo-800">📥 Import / Export</h3>
+
+      {/* Export */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">⬇️ Export</h4>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => downloadSheets({ Materials: materialExportRows(materials, bomLines) }, `materials-${sku}`, 'csv')}
+            variant="outline"
+            className="border-indigo-300 text-indigo-700 hover:bg-indigo-50"
+          >
+            Materials CSV
+          </Button>
+          <Button
+            onClick={() => downloadSheets({ Procurement: procurementExportRows(procurementPlan) }, `procurement-${sku}`, 'csv')}
+            variant="outline"
+            className="border-indigo-300 text-indigo-700 hover:bg-indigo-50"
+          >
+            Procurement Plan CSV
+          </Button>
+          <Button
+            onClick={() => downloadSheets({ Materials: materialExportRows(materials, bomLines), Procurement: procurementExportRows(procurementPlan) }, `stabiliser-${sku}`, 'xlsx')}
+            className="bg-indigo-500 hover:bg-indigo-600 text-white"
+          >
+            Excel Workbook
+          </Button>
+        </div>
+        <div className="text-xs text-gray-500 mt-2">BOM quantities are exported for {sku}.</div>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">⬆️ Import Material Master</h4>
+        <Input
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+            e.target.value = "";
+          }}
+          className="bg-white/50 border-blue-200 focus:border-blue-400"
+        />
+        {readError && <div className="text-sm text-red-600 mt-2">{readError}</div>}
+
+        {mapping && (
+          <div className="mt-4 space-y-4">
+            <div className="text-sm text-gray-600">
+              {fileName}: {rows.length} row(s). BOM Qty is applied to {sku}.
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-sm text-blue-700">{IMPORT_FIELDS[field].label}</Label>
+                  <Select
+                    value={String(mapping[field])}
+                    onValueChange={(v) => setMapping(prev => prev && ({ ...prev, [field]: Number(v) }))}
+                  >
+                    <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="-1">(not mapped)</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                  <tr>
+                    <th className="py-2 px-2 text-left">Row</th>
+                    <th className="py-2 px-2 text-left">Material</th>
+                    <th className="py-2 px-2 text-left">Status</th>
+                    <th className="py-2 px-2 text-left">Changes / Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(r => (
+                    <tr key={r.rowNumber} className="border-b border-blue-100 align-top">
+                      <td className="py-2 px-2">{r.rowNumber}</td>
+                      <td className="py-2 px-2 font-medium">{r.id || "—"}</td>
+                      <td className={`py-2 px-2 font-semibold ${statusClasses[r.status]}`}>{r.status}</td>
+                      <td className="py-2 px-2 text-xs">
+                        {r.errors.map((e, i) => <div key={i} className="text-red-600">{e}</div>)}
+                        {r.status === 'new' && r.material && (
+                          <div>{r.material.name} | {r.material.uom} | {formatMoney(r.material.newPrice, r.material.currency)}</div>
+                        )}
+                        {r.changes.map(c => (
+                          <div key={c.field}>{IMPORT_FIELDS[c.field].label}: {String(c.before)} → <span className="font-semibold">{String(c.after)}</span></div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <div className="text-sm text-gray-600">
+                {applicable.length} row(s) to apply{invalidCount > 0 ? `, ${invalidCount} invalid row(s) skipped` : ''}
+              </div>
+              <div className="space-x-2">
+                <Button onClick={reset} variant="outline" className="border-indigo-300 text-indigo-700 hover:bg-indigo-50">
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => { onApply(applicable); reset(); }}
+                  disabled={applicable.length === 0}
+                  className="bg-indigo-500 hover:bg-indigo-600 text-white"
+                >
+                  ✅ Apply Import
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Commodity Hedging Component Interface
+interface CommodityHedgingProps {
+  materials: Material[];
+  procurementPlan: ProcurementPlan[];
+  histories: Record<string, Array<{ month: string; price: number }>>;
+  hedges: Record<string, HedgingStrategy>;
+  setHedges: React.Dispatch<React.SetStateAction<Record<string, HedgingStrategy>>>;
+  predictions: Record<string, PricePrediction[]>;
+  setPredictions: React.Dispatch<React.SetStateAction<Record<string, PricePrediction[]>>>;
+  summary: HedgeSummary;
+  listPrice: number;
+  bookCover: Record<string, HedgeCover>;
+}
+
+// Commodity Hedging Component
+function CommodityHedgingComponent({
+  materials,
+  procurementPlan,
+  histories,
+  hedges,
+  setHedges,
+  predictions,
+  setPredictions,
+  summary,
+  listPrice,
+  bookCover
+}: CommodityHedgingProps) {
+  const rupees = useMoneyFormatter();
+  const hedged = procurementPlan.filter(p => p.bomQty > 0 && hedges[p.id]);
+  const [active, setActive] = useState<string>(hedged[0]?.id ?? '');
+  const activeId = hedged.some(p => p.id === active) ? active : hedged[0]?.id;
+
+  const toggleMaterial = (id: string) => {
+    const material = materials.find(m => m.id === id);
+    if (!material) return;
+    setHedges(prev => {
+      if (!prev[id]) return { ...prev, [id]: defaultHedgingStrategy(material) };
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (!hedges[id]) setActive(id);
+  };
+
+  const strategySetter = (id: string): React.Dispatch<React.SetStateAction<HedgingStrategy>> => (action) =>
+    setHedges(prev => ({ ...prev, [id]: typeof action === 'function' ? action(prev[id]) : action }));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+        <h3 className="text-xl font-semibold text-blue-800">⚖️ Commodity Hedging</h3>
+        <div className="flex flex-wrap gap-2">
+          {procurementPlan.filter(p => p.bomQty > 0).map(p => (
+            <Button
+              key={p.id}
+              size="sm"
+              variant={hedges[p.id] ? 'default' : 'outline'}
+              onClick={() => toggleMaterial(p.id)}
+              className="text-xs"
+            >
+              {p.name}
+            </Button>
+          ))}
+        </div>
+
+        {summary.lines.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                <tr>
+                  <th className="py-3 px-2 text-left">Material</th>
+                  <th className="py-3 px-2 text-right">Hedge Ratio</th>
+                  <th className="py-3 px-2 text-right">Purchase Price</th>
+                  <th className="py-3 px-2 text-right">Avg Cost</th>
+                  <th className="py-3 px-2 text-right">Δ Cost/Unit</th>
+                  <th className="py-3 px-2 text-right">Hedge P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.lines.map(l => (
+                  <tr key={l.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                    <td className="py-3 px-2 font-medium">{l.name}</td>
+                    <td className="py-3 px-2 text-right">{(l.hedgeRatio * 100).toFixed(1)}%</td>
+                    <td className="py-3 px-2 text-right">{rupees(l.purchasePrice)}/{l.uom}</td>
+                    <td className="py-3 px-2 text-right">{rupees(l.avgCost)} → {rupees(l.hedgedAvgCost)}/{l.uom}</td>
+                    <td className={`py-3 px-2 text-right ${l.costDifference > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {l.costDifference >= 0 ? '+' : ''}{rupees(l.costDifference)}
+                    </td>
+                    <td className={`py-3 px-2 text-right ${l.hedgePnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{rupees(l.hedgePnl)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="py-3 px-2" colSpan={4}>Whole BOM: Total Cost {rupees(summary.totalCost)} → {rupees(summary.hedgedTotalCost)}</td>
+                  <td className={`py-3 px-2 text-right ${summary.costDifference > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {summary.costDifference >= 0 ? '+' : ''}{rupees(summary.costDifference)}
+                  </td>
+                  <td className="py-3 px-2 text-right">Margin {summary.marginPct.toFixed(1)}% → {summary.hedgedMarginPct.toFixed(1)}%</td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="text-xs text-gray-500 mt-2">
+              Planned hedges cover their share of the purchases the hedge book leaves open, valued at today's price, and
+              blend with on-hand stock in the headline cost. The price paths below test each hedge against the forecast.
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-600">Select one or more BOM materials to hedge.</div>
+        )}
+      </div>
+
+      {hedged.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {hedged.map(p => (
+            <Button
+              key={p.id}
+              size="sm"
+              variant={p.id === activeId ? 'default' : 'ghost'}
+              onClick={() => setActive(p.id)}
+              className="text-xs"
+            >
+              {p.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Inactive materials stay mounted so their forecast settings survive switching */}
+      {hedged.map(p => {
+        const material = materials.find(m => m.id === p.id);
+        if (!material) return null;
+        return (
+          <div key={p.id} className={p.id === activeId ? '' : 'hidden'}>
+            <MaterialHedgingComponent
+              material={material}
+              predictions={predictions[p.id] ?? []}
+              setPredictions={(forecast) => setPredictions(prev => ({ ...prev, [p.id]: forecast }))}
+              hedgingStrategy={hedges[p.id]}
+              setHedgingStrategy={strategySetter(p.id)}
+              priceHistory={histories[p.id] ?? []}
+              avgCost={p.avgCost}
+              bomQty={p.bomQty}
+              totalCost={summary.totalCost}
+              listPrice={listPrice}
+              exposureQty={Math.max(0, p.procureQty - (bookCover[p.id]?.qty ?? 0))}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Hedge Book Component Interface
+interface HedgeBookProps {
+  positions: HedgePosition[];
+  setPositions: React.Dispatch<React.SetStateAction<HedgePosition[]>>;
+  materials: Material[];
+  procurementPlan: ProcurementPlan[];
+  asOf: string;
+}
+
+// Hedge Book Component
+function HedgeBookComponent({ positions, setPositions, materials, procurementPlan, asOf }: HedgeBookProps) {
+  const rupees = useMoneyFormatter();
+  const blankPosition = (): Omit<HedgePosition, 'id'> => ({
+    materialId: materials[0]?.id ?? '',
+    instrument: 'future',
+    quantity: 0,
+    price: materials[0]?.newPrice ?? 0,
+    floorPrice: 0,
+    premium: 0,
+    tradeDate: asOf,
+    maturity: addMonthsToDate(asOf, 3),
   });
+  const [draft, setDraft] = useState(blankPosition);
+  const [message, setMessage] = useState("");
+
+  const exposure = useMemo(
+    () => hedgeBookExposure(positions, materials, procurementPlan, asOf),
+    [positions, materials, procurementPlan, asOf]
+  );
+  const draftValid = materials.some(m => m.id === draft.materialId) && draft.quantity > 0 && draft.price > 0 && draft.maturity >= draft.tradeDate;
+
+  const addPosition = () => {
+    setPositions(prev => [...prev, { ...draft, id: newId() }]);
+    setDraft(prev => ({ ...blankPosition(), materialId: prev.materialId, price: prev.price }));
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const { positions: imported, rejected } = await parseHedgeBookFile(file, materials.map(m => m.id));
+      setPositions(prev => [...prev.filter(p => !imported.some(i => i.id === p.id)), ...imported]);
+      setMessage(`Imported ${imported.length} position(s) from ${file.name}${rejected ? `, rejected ${rejected} row(s)` : ''}.`);
+    } catch (error) {
+      console.error('Error importing hedge book:', error);
+      setMessage(`Could not read ${file.name}. Use CSV/XLSX with material id, instrument, quantity, price, trade date and maturity columns.`);
+    }
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">📒 Hedge Book</h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Material</Label>
+          <Select
+            value={draft.materialId}
+            onValueChange={(v) => setDraft(prev => ({ ...prev, materialId: v, price: materials.find(m => m.id === v)?.newPrice ?? prev.price }))}
+          >
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {materials.map(m => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Instrument</Label>
+          <Select value={draft.instrument} onValueChange={(v) => setDraft(prev => ({ ...prev, instrument: v as HedgeInstrumentType }))}>
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(HEDGE_INSTRUMENTS).map(([id, label]) => (
+                <SelectItem key={id} value={id}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <InputField label="Quantity" value={draft.quantity} onChange={(v) => setDraft(prev => ({ ...prev, quantity: Math.max(0, v) }))} />
+        <InputField
+          label={draft.instrument === 'collar' ? 'Cap Price (₹)' : draft.instrument === 'call' ? 'Strike (₹)' : 'Contract Price (₹)'}
+          value={draft.price}
+          onChange={(v) => setDraft(prev => ({ ...prev, price: Math.max(0, v) }))}
+        />
+        {draft.instrument === 'collar' && (
+          <InputField label="Floor Price (₹)" value={draft.floorPrice} onChange={(v) => setDraft(prev => ({ ...prev, floorPrice: Math.max(0, v) }))} />
+        )}
+        {draft.instrument !== 'future' && (
+          <InputField label="Premium (₹)" value={draft.premium} onChange={(v) => setDraft(prev => ({ ...prev, premium: v }))} />
+        )}
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Trade Date</Label>
+          <Input type="date" value={draft.tradeDate} onChange={(e) => setDraft(prev => ({ ...prev, tradeDate: e.target.value }))} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Maturity</Label>
+          <Input type="date" value={draft.maturity} onChange={(e) => setDraft(prev => ({ ...prev, maturity: e.target.value }))} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm" />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={addPosition} disabled={!draftValid} className="bg-blue-600 hover:bg-blue-700 text-white">
+          ➕ Add Position
+        </Button>
+        <Button variant="outline" onClick={() => downloadSheets({ HedgeBook: hedgeBookExportRows(positions) }, 'hedge-book', 'csv')} disabled={positions.length === 0}>
+          ⬇️ Export CSV
+        </Button>
+        <Input
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+          className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm max-w-xs"
+        />
+        <span className="text-sm text-gray-600">{message || `${positions.length} position(s)`}</span>
+      </div>
+
+      {positions.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Material</th>
+                <th className="py-3 px-2 text-left">Instrument</th>
+                <th className="py-3 px-2 text-right">Qty</th>
+                <th className="py-3 px-2 text-right">Price</th>
+                <th className="py-3 px-2 text-right">Premium</th>
+                <th className="py-3 px-2 text-left">Traded</th>
+                <th className="py-3 px-2 text-left">Maturity</th>
+                <th className="py-3 px-2 text-right">Locked-in ₹</th>
+                <th className="py-3 px-2 text-right">MTM</th>
+                <th className="py-3 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map(p => {
+                const material = materials.find(m => m.id === p.materialId);
+                const open = isOpenPosition(p, asOf);
+                const spot = material?.newPrice ?? 0;
+                const mtm = markToMarket(p, spot);
+                return (
+                  <tr key={p.id} className={`border-b border-blue-100 hover:bg-blue-50/50 ${open ? '' : 'text-gray-400'}`}>
+                    <td className="py-3 px-2 font-medium">{material?.name ?? p.materialId}</td>
+                    <td className="py-3 px-2">{HEDGE_INSTRUMENTS[p.instrument]}</td>
+                    <td className="py-3 px-2 text-right">{p.quantity.toLocaleString()} {material?.uom}</td>
+                    <td className="py-3 px-2 text-right">
+                      {p.instrument === 'collar' ? `${rupees(p.floorPrice)} – ${rupees(p.price)}` : rupees(p.price)}
+                    </td>
+                    <td className="py-3 px-2 text-right">{rupees(p.premium)}</td>
+                    <td className="py-3 px-2">{p.tradeDate}</td>
+                    <td className="py-3 px-2">{p.maturity}{open ? '' : ' (matured)'}</td>
+                    <td className="py-3 px-2 text-right">{rupees(hedgedPrice(positionInstrument(p), spot))}</td>
+                    <td className={`py-3 px-2 text-right ${mtm >= 0 ? 'text-green-600' : 'text-red-600'}`}>{rupees(mtm)}</td>
+                    <td className="py-3 px-2 text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setPositions(prev => prev.filter(x => x.id !== p.id))} title="Delete">🗑️</Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+            <tr>
+              <th className="py-3 px-2 text-left">Exposure</th>
+              <th className="py-3 px-2 text-right">BOM Requirement</th>
+              <th className="py-3 px-2 text-right">On-hand</th>
+              <th className="py-3 px-2 text-right">To Procure</th>
+              <th className="py-3 px-2 text-right">Hedged (open)</th>
+              <th className="py-3 px-2 text-right">Open Exposure</th>
+              <th className="py-3 px-2 text-right">Cover</th>
+              <th className="py-3 px-2 text-right">Locked-in Cost</th>
+              <th className="py-3 px-2 text-right">MTM</th>
+            </tr>
+          </thead>
+          <tbody>
+            {exposure.map(e => (
+              <tr key={e.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                <td className="py-3 px-2 font-medium">{e.name}</td>
+                <td className="py-3 px-2 text-right">{e.grossReq.toLocaleString()} {e.uom}</td>
+                <td className="py-3 px-2 text-right">{e.onHand.toLocaleString()}</td>
+                <td className="py-3 px-2 text-right">{e.procureQty.toLocaleString()}</td>
+                <td className="py-3 px-2 text-right">
+                  {e.hedgedQty.toLocaleString()}
+                  {e.overHedgedQty > 0 && <span className="text-red-600" title="Hedged beyond the purchase requirement"> (+{e.overHedgedQty.toLocaleString()} over)</span>}
+                </td>
+                <td className="py-3 px-2 text-right font-semibold text-orange-600">{e.openExposure.toLocaleString()}</td>
+                <td className="py-3 px-2 text-right">{(e.coverPct * 100).toFixed(0)}%</td>
+                <td className="py-3 px-2 text-right">{e.lockedPrice === undefined ? '—' : `${rupees(e.lockedPrice)}/${e.uom}`}</td>
+                <td className={`py-3 px-2 text-right ${e.mtm >= 0 ? 'text-green-600' : 'text-red-600'}`}>{rupees(e.mtm)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-gray-500">
+        Open positions are marked to market at intrinsic value against each material's new price, net of premium.
+        Their locked-in cost replaces new price for the hedged part of the purchase in the moving-average cost.
+      </div>
+    </div>
+  );
+}
+
+// Scenario Diff Component
+function ScenarioDiffComponent({
+  scenarioResults
+}: {
+  scenarioResults: Array<{ scenario: SavedScenario; result: CostResult }>;
+}) {
+  const rupees = useMoneyFormatter();
+  const [baseId, setBaseId] = useState(scenarioResults[0]?.scenario.id ?? "");
+  const [compareId, setCompareId] = useState(scenarioResults[1]?.scenario.id ?? "");
+  const base = scenarioResults.find(s => s.scenario.id === baseId) ?? scenarioResults[0];
+  const compare = scenarioResults.find(s => s.scenario.id === compareId) ?? scenarioResults[1];
+
+  if (!base || !compare) return null;
+
+  const diff = diffScenarioResults(base.result, compare.result, [base.scenario.inputs.materials, compare.scenario.inputs.materials]);
+
+  // Waterfall: an invisible offset bar lifts each step to the running margin
+  let running = base.result.marginInr;
+  const bridgeData = [
+    { name: base.scenario.name, offset: 0, value: base.result.marginInr, fill: '#3B82F6' },
+    ...diff.bridge.map(step => {
+      const start = running;
+      running += step.delta;
+      return { name: step.driver, offset: Math.min(start, running), value: Math.abs(step.delta), fill: step.delta >= 0 ? '#10B981' : '#EF4444' };
+    }),
+    { name: compare.scenario.name, offset: 0, value: compare.result.marginInr, fill: '#8B5CF6' },
+  ];
+
+  const delta = (values: [number, number] | number[], format: (n: number) => string = (n) => n.toLocaleString(undefined, { maximumFractionDigits: 2 })) => {
+    const change = values[1] - values[0];
+    return (
+      <span>
+        {format(values[0])} → {format(values[1])}
+        {Math.abs(change) > 1e-9 && (
+          <span className={`ml-1 font-semibold ${change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            ({change > 0 ? '+' : ''}{format(change)})
+          </span>
+        )}
+      </span>
+    );
+  };
+
+  const scenarioSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-56 bg-white/50 border-pink-200 focus:border-pink-400">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {scenarioResults.map(({ scenario }) => (
+          <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h4 className="text-lg font-semibold text-gray-800">🔍 Scenario Diff</h4>
+        <div className="flex items-center gap-2 text-sm">
+          {scenarioSelect(base.scenario.id, setBaseId)}
+          <span>vs</span>
+          {scenarioSelect(compare.scenario.id, setCompareId)}
+        </div>
+      </div>
+
+      <div className="text-sm">
+        Margin per unit: {delta([base.result.marginInr, compare.result.marginInr], rupees)}
+      </div>
+
+      {/* Per-material drill-down */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+            <tr>
+              <th className="py-2 px-2 text-left">Material</th>
+              <th className="py-2 px-2 text-right">Price</th>
+              <th className="py-2 px-2 text-right">BOM Qty</th>
+              <th className="py-2 px-2 text-right">On-hand</th>
+              <th className="py-2 px-2 text-right">Avg Cost</th>
+              <th className="py-2 px-2 text-right">Cost / Unit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.materialDiffs.map(d => (
+              <tr key={d.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                <td className="py-2 px-2 font-medium">{d.name}</td>
+                <td className="py-2 px-2 text-right">{delta(d.newPrice, rupees)}</td>
+                <td className="py-2 px-2 text-right">{delta(d.bomQty)}</td>
+                <td className="py-2 px-2 text-right">{delta(d.onHand)}</td>
+                <td className="py-2 px-2 text-right">{delta(d.avgCost, rupees)}</td>
+                <td className="py-2 px-2 text-right">{delta(d.contribution, rupees)}</td>
+              </tr>
+            ))}
+            {diff.overheadDiffs.map(o => (
+              <tr key={o.label} className="border-b border-blue-100 hover:bg-blue-50/50">
+                <td className="py-2 px-2 font-medium text-purple-700">{o.label}</td>
+                <td className="py-2 px-2 text-right" colSpan={5}>{delta(o.values, rupees)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Margin bridge */}
+      <div>
+        <h4 className="font-semibold text-gray-800 mb-2">🌉 Margin Bridge (per unit)</h4>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={bridgeData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis dataKey="name" fontSize={11} interval={0} angle={-30} textAnchor="end" height={70} />
+            <YAxis fontSize={12} />
+            <Tooltip formatter={(value, name) => name === 'offset' ? [null, null] : [rupees(Number(value)), 'Amount']} />
+            <Bar dataKey="offset" stackId="bridge" fill="transparent" />
+            <Bar dataKey="value" stackId="bridge">
+              {bridgeData.map((entry, index) => (
+                <Cell key={`bridge-${index}`} fill={entry.fill} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+// Monte Carlo Component
+function MonteCarloComponent({
+  costInputs
+}: {
+  costInputs: CostInputs;
+}) {
+  const rupees = useMoneyFormatter();
+  const [settings, setSettings] = useState<MonteCarloSettings>({
+    iterations: 5000,
+    seed: 42,
+    volatility: DEFAULT_VOLATILITY,
+    correlation: { a: "M_COPPER", b: "M_ALUM", rho: 0.7 },
+  });
+  const [simulation, setSimulation] = useState<ReturnType<typeof runMonteCarlo> | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runSimulation = () => {
+    setIsRunning(true);
+    // Let the button state paint before the synchronous run
+    setTimeout(() => {
+      setSimulation(runMonteCarlo(costInputs, settings));
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const bomMaterials = costInputs.materials.filter(m => costInputs.bom.some(l => l.materialId === m.id && l.qty > 0));
+  const marginHistogram = simulation
+    ? histogram(simulation.marginPct, 30).map(b => ({
+        bin: `${(b.from * 100).toFixed(1)}%`,
+        count: b.count,
+        belowTarget: (b.from + b.to) / 2 < simulation.targetMargin
+      }))
+    : [];
+  const costHistogram = simulation
+    ? histogram(simulation.totalCost, 30).map(b => ({ bin: Math.round((b.from + b.to) / 2).toString(), count: b.count }))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-rose-800">🎲 Monte Carlo Price Risk</h3>
+        <Button
+          onClick={runSimulation}
+          disabled={isRunning}
+          className="bg-rose-500 hover:bg-rose-600 text-white"
+        >
+          {isRunning ? '🔄 Running...' : '▶️ Run Simulation'}
+        </Button>
+      </div>
+
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <InputField
+            label="Iterations"
+            value={settings.iterations}
+            onChange={(v) => setSettings(prev => ({ ...prev, iterations: Math.min(50000, Math.max(100, Math.round(v))) }))}
+          />
+          <InputField
+            label="Seed"
+            value={settings.seed}
+            onChange={(v) => setSettings(prev => ({ ...prev, seed: Math.round(v) }))}
+          />
+          <InputField
+            label="Cu–Al Correlation (%)"
+            value={Math.round(settings.correlation.rho * 100)}
+            onChange={(v) => setSettings(prev => ({ ...prev, correlation: { ...prev.correlation, rho: Math.min(100, Math.max(-100, v)) / 100 } }))}
+          />
+        </div>
+        <div>
+          <div className="text-sm text-gray-600 mb-2">Price volatility per material (%)</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {bomMaterials.map(m => (
+              <InputField
+                key={m.id}
+                label={m.name.split(' ')[0]}
+                value={Math.round((settings.volatility[m.id] ?? 0) * 100)}
+                onChange={(v) => setSettings(prev => ({ ...prev, volatility: { ...prev.volatility, [m.id]: Math.max(0, v) / 100 } }))}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {simulation && (
+        <>
+          <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+            <h4 className="text-lg font-semibold text-gray-800 mb-4">📊 Outcome Bands ({simulation.iterations.toLocaleString()} runs)</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                  <tr>
+                    <th className="py-3 px-2 text-left">Output</th>
+                    <th className="py-3 px-2 text-right">P5</th>
+                    <th className="py-3 px-2 text-right">P50</th>
+                    <th className="py-3 px-2 text-right">P95</th>
+                    <th className="py-3 px-2 text-right">Mean</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ['Unit Cost', simulation.stats.totalCost, rupees],
+                    ['Margin %', simulation.stats.marginPct, (n: number) => `${(n * 100).toFixed(1)}%`],
+                    ['Recommended SP', simulation.stats.recommendedSP, rupees],
+                  ] as const).map(([label, stats, format]) => (
+                    <tr key={label} className="border-b border-blue-100 hover:bg-blue-50/50">
+                      <td className="py-3 px-2 font-medium">{label}</td>
+                      <td className="py-3 px-2 text-right">{format(stats.p5)}</td>
+                      <td className="py-3 px-2 text-right font-semibold">{format(stats.p50)}</td>
+                      <td className="py-3 px-2 text-right">{format(stats.p95)}</td>
+                      <td className="py-3 px-2 text-right">{format(stats.mean)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className={`mt-4 p-3 rounded-lg ${simulation.probBelowTarget > 0.2 ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'}`}>
+              Probability margin falls below the {(simulation.targetMargin * 100).toFixed(0)}% target: <strong>{(simulation.probBelowTarget * 100).toFixed(1)}%</strong>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">📉 Margin Distribution</h4>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={marginHistogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                  <XAxis dataKey="bin" fontSize={10} />
+                  <YAxis fontSize={12} />
+                  <Tooltip formatter={(value) => [value, 'Runs']} />
+                  <Bar dataKey="count">
+                    {marginHistogram.map((entry, index) => (
+                      <Cell key={`margin-${index}`} fill={entry.belowTarget ? '#EF4444' : '#10B981'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+              <h4 className="text-lg font-semibold text-gray-800 mb-4">💰 Unit Cost Distribution</h4>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={costHistogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                  <XAxis dataKey="bin" fontSize={10} />
+                  <YAxis fontSize={12} />
+                  <Tooltip formatter={(value) => [value, 'Runs']} labelFormatter={(label) => `≈ ${rupees(Number(label))}`} />
+                  <Bar dataKey="count" fill="#3B82F6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Goal Seek Component
+function GoalSeekComponent({
+  costInputs
+}: {
+  costInputs: CostInputs;
+}) {
+  const rupees = useMoneyFormatter();
+  const drivers = useMemo(() => costDrivers(costInputs), [costInputs]);
+  const base = useMemo(() => computeCostsWithInventory(costInputs), [costInputs]);
+  const [driverId, setDriverId] = useState(drivers.some(d => d.id === 'price:M_COPPER') ? 'price:M_COPPER' : drivers[0]?.id ?? '');
+  const [metric, setMetric] = useState<GoalSeekMetric>('marginPct');
+  const [target, setTarget] = useState(base.targetMargin);
+
+  const driver = drivers.find(d => d.id === driverId) ?? drivers[0];
+  const result = useMemo(() => driver && goalSeek(costInputs, driver, metric, target), [costInputs, driver, metric, target]);
+  const formatMetric = (n: number) => metric === 'marginPct' ? `${(n * 100).toFixed(2)}%` : rupees(n);
+  const formatValue = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  const current = driver?.get(costInputs) ?? 0;
+
+  const changeMetric = (next: GoalSeekMetric) => {
+    setMetric(next);
+    setTarget(next === 'marginPct' ? base.targetMargin : base[next]);
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">🎯 Goal Seek</h4>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Input to Solve For</Label>
+          <Select value={driver?.id ?? ''} onValueChange={setDriverId}>
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {drivers.map(d => (
+                <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Output</Label>
+          <Select value={metric} onValueChange={(v) => changeMetric(v as GoalSeekMetric)}>
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(GOAL_SEEK_METRICS).map(([id, label]) => (
+                <SelectItem key={id} value={id}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <InputField
+          label={metric === 'marginPct' ? "Target Margin (%)" : `Target ${GOAL_SEEK_METRICS[metric]} (₹)`}
+          value={metric === 'marginPct' ? Math.round(target * 10000) / 100 : Math.round(target * 100) / 100}
+          onChange={(v) => setTarget(metric === 'marginPct' ? v / 100 : v)}
+        />
+      </div>
+
+      {driver && result && (
+        result.status === 'solved' ? (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>{driver.label} today:</span>
+              <span className="font-semibold">{formatValue(current)} ({GOAL_SEEK_METRICS[metric]} {formatMetric(base[metric])})</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span>{driver.label} for {GOAL_SEEK_METRICS[metric]} = {formatMetric(target)}:</span>
+              <span className="font-bold text-lg text-green-600">
+                {formatValue(result.value)}
+                {current !== 0 && ` (${result.value >= current ? '+' : ''}${((result.value / current - 1) * 100).toFixed(1)}%)`}
+              </span>
+            </div>
+            {!result.exact && (
+              <div className="text-xs text-amber-700">
+                ⚠️ The output jumps past the target at this value (e.g. a supplier price break or MOQ step); it reaches {formatMetric(result.achieved)} here.
+              </div>
+            )}
+            <div className="text-xs text-gray-500">Solved by bisection in {result.iterations} step(s) on the full cost model.</div>
+          </div>
+        ) : (
+          <div className="text-sm text-red-600 space-y-1">
+            <div>
+              ❌ No value of {driver.label} between {formatValue(result.searched[0])} and {formatValue(result.searched[1])} gives {GOAL_SEEK_METRICS[metric]} = {formatMetric(target)}.
+            </div>
+            <div className="text-xs text-gray-600">
+              Closest: {formatMetric(result.closest.achieved)} at {formatValue(result.closest.value)}.
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// Sensitivity Component
+function SensitivityComponent({
+  costInputs
+}: {
+  costInputs: CostInputs;
+}) {
+  const rupees = useMoneyFormatter();
+  const [flexPct, setFlexPct] = useState(0.1);
+  const [metric, setMetric] = useState<'marginPct' | 'recommendedSP'>('marginPct');
+  const [topN, setTopN] = useState(12);
+
+  const sensitivity = useMemo(() => runSensitivity(costInputs, flexPct), [costInputs, flexPct]);
+
+  const rows = [...sensitivity.rows]
+    .sort((a, b) => metric === 'marginPct' ? b.marginSwing - a.marginSwing : b.spSwing - a.spSwing)
+    .slice(0, topN);
+  const baseValue = sensitivity.base[metric];
+  const scale = metric === 'marginPct' ? 100 : 1;
+  // Each bar runs from the base to the flexed result, so same-sign swings sit side by side instead of stacking
+  const base = Number((baseValue * scale).toFixed(2));
+  const tornadoData = rows.map(r => ({
+    label: r.label,
+    low: [base, Number((r.low[metric] * scale).toFixed(2))],
+    high: [base, Number((r.high[metric] * scale).toFixed(2))],
+  }));
+  const format = (n: number) => metric === 'marginPct' ? `${(n * 100).toFixed(2)}%` : rupees(n);
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-xl font-semibold text-amber-800">🌪️ Sensitivity Analysis</h3>
+
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <InputField
+            label="Flex (± %)"
+            value={Math.round(flexPct * 100)}
+            onChange={(v) => setFlexPct(Math.min(100, Math.max(0, v)) / 100)}
+          />
+          <div className="space-y-1">
+            <Label className="text-sm text-blue-700">Output</Label>
+            <Select value={metric} onValueChange={(v) => setMetric(v as 'marginPct' | 'recommendedSP')}>
+              <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="marginPct">Margin %</SelectItem>
+                <SelectItem value="recommendedSP">Recommended SP</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <InputField
+            label="Drivers Shown"
+            value={topN}
+            onChange={(v) => setTopN(Math.max(1, Math.round(v)))}
+          />
+        </div>
+      </div>
+
+      {/* Tornado chart */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-1">🌪️ Tornado</h4>
+        <div className="text-sm text-gray-600 mb-4">
+          {metric === 'marginPct' ? 'Margin (%)' : 'Recommended SP'} at each flex, from the base {format(baseValue)}
+        </div>
+        <ResponsiveContainer width="100%" height={Math.max(200, tornadoData.length * 32 + 60)}>
+          <BarChart data={tornadoData} layout="vertical" margin={{ left: 40 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+            <XAxis type="number" domain={['auto', 'auto']} fontSize={12} tickFormatter={(v) => metric === 'marginPct' ? String(v) : rupees(Number(v))} />
+            <YAxis type="category" dataKey="label" width={180} fontSize={11} />
+            <Tooltip formatter={(value, name) => {
+              const result = Array.isArray(value) ? Number(value[1]) : Number(value);
+              const delta = result - base;
+              return metric === 'marginPct'
+                ? [`${result.toFixed(2)}% (${delta >= 0 ? '+' : ''}${delta.toFixed(2)} pts)`, name]
+                : [`${rupees(result)} (${delta >= 0 ? '+' : ''}${rupees(delta)})`, name];
+            }} />
+            <Legend />
+            <ReferenceLine x={base} stroke="#6B7280" />
+            <Bar dataKey="low" fill="#3B82F6" name={`-${Math.round(flexPct * 100)}%`} />
+            <Bar dataKey="high" fill="#F59E0B" name={`+${Math.round(flexPct * 100)}%`} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Ranked table */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">📋 Ranked Drivers</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Driver</th>
+                <th className="py-3 px-2 text-right">Base</th>
+                <th className="py-3 px-2 text-right">Margin Low / High</th>
+                <th className="py-3 px-2 text-right">Margin Swing</th>
+                <th className="py-3 px-2 text-right">SP Low / High</th>
+                <th className="py-3 px-2 text-right">SP Swing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sensitivity.rows.map(r => (
+                <tr key={r.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                  <td className="py-3 px-2 font-medium">{r.label}</td>
+                  <td className="py-3 px-2 text-right">{r.value.toLocaleString(undefined, { maximumFractionDigits: 3 })}</td>
+                  <td className="py-3 px-2 text-right">{(r.low.marginPct * 100).toFixed(1)}% / {(r.high.marginPct * 100).toFixed(1)}%</td>
+                  <td className="py-3 px-2 text-right font-semibold">{(r.marginSwing * 100).toFixed(2)} pts</td>
+                  <td className="py-3 px-2 text-right">{rupees(r.low.recommendedSP)} / {rupees(r.high.recommendedSP)}</td>
+                  <td className="py-3 px-2 text-right font-semibold">{rupees(r.spSwing)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const TREND_COLORS = ['#EF4444', '#8B5CF6', '#10B981', '#3B82F6', '#F59E0B', '#EC4899', '#14B8A6', '#6366F1', '#84CC16', '#F97316', '#64748B'];
+
+// Price Trend Component
+function PriceTrendComponent({
+  priceHistory,
+  setPriceHistory,
+  materials,
+  onApplyBaseline
+}: {
+  priceHistory: PricePoint[];
+  setPriceHistory: React.Dispatch<React.SetStateAction<PricePoint[]>>;
+  materials: Material[];
+  onApplyBaseline: (from: string, to: string) => void;
+}) {
+  const rupees = useMoneyFormatter();
+  const latest = priceHistory.reduce((max, p) => p.date > max ? p.date : max, "");
+  const [from, setFrom] = useState(latest ? `${addMonths(latest.slice(0, 7), -6)}-01` : "");
+  const [to, setTo] = useState(latest);
+  const [aggregation, setAggregation] = useState<PriceInterval>('month');
+  const [selected, setSelected] = useState<string[]>(["M_COPPER", "M_STEEL_LAM", "M_ABS"]);
+  const [message, setMessage] = useState("");
+
+  const trendData = useMemo(
+    () => queryPriceHistory(priceHistory, { materialIds: selected, from, to, interval: aggregation }),
+    [priceHistory, selected, from, to, aggregation]
+  );
+
+  const importFile = async (file: File) => {
+    try {
+      const { points, rejected } = await parsePriceHistoryFile(file, materials.map(m => m.id));
+      setPriceHistory(prev => mergePriceHistory(prev, points));
+      setMessage(`Imported ${points.length} price(s) from ${file.name}${rejected ? `, rejected ${rejected} row(s)` : ''}.`);
+    } catch (error) {
+      console.error('Error importing price history:', error);
+      setMessage(`Could not read ${file.name}. Use CSV/XLSX with material id, date, price columns or a JSON array.`);
+    }
+  };
+
+  const toggleMaterial = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 lg:col-span-2 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">📈 Price Trends</h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">From</Label>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">To</Label>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Aggregation</Label>
+          <Select value={aggregation} onValueChange={(v) => setAggregation(v as PriceInterval)}>
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Monthly</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Import CSV / XLSX / JSON</Label>
+          <Input
+            type="file"
+            accept=".csv,.xlsx,.xls,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+            className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {materials.map(m => (
+          <Button
+            key={m.id}
+            size="sm"
+            variant={selected.includes(m.id) ? 'default' : 'outline'}
+            onClick={() => toggleMaterial(m.id)}
+            className="text-xs"
+          >
+            {m.name.split(' ')[0]}
+          </Button>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={250}>
+        <LineChart data={trendData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+          <XAxis dataKey="period" fontSize={12} />
+          <YAxis fontSize={12} />
+          <Tooltip formatter={(value) => rupees(Number(value))} />
+          <Legend />
+          {selected.map(id => {
+            const material = materials.find(m => m.id === id);
+            return (
+              <Line
+                key={id}
+                type="monotone"
+                dataKey={id}
+                stroke={TREND_COLORS[materials.findIndex(m => m.id === id) % TREND_COLORS.length]}
+                strokeWidth={3}
+                dot={false}
+                connectNulls
+                name={`${material?.name.split(' ')[0] ?? id} (₹/${material?.uom.toLowerCase() ?? 'unit'})`}
+              />
+            );
+          })}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="flex flex-wrap justify-between items-center gap-2 text-sm">
+        <span className="text-gray-600">{message || `${priceHistory.length.toLocaleString()} stored price(s)`}</span>
+        <div className="space-x-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onApplyBaseline(from, to)}
+            className="border-blue-300 text-blue-700 hover:bg-blue-50"
+          >
+            Set Old Cost from Range Avg
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => { setPriceHistory(samplePriceHistory()); setMessage("Price history reset to sample data."); }}
+            className="border-blue-300 text-blue-700 hover:bg-blue-50"
+          >
+            Reset to Sample
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Overhead Drivers Component
+function OverheadDriversComponent({
+  result,
+  laborPct,
+  energyPct,
+  activity
+}: {
+  result: CostResult;
+  laborPct: number;
+  energyPct: number;
+  activity?: ActivityCosting;
+}) {
+  const rupees = useMoneyFormatter();
+  const totalMinutes = result.operations.reduce((sum, op) => sum + op.stdMinutes, 0);
+  const totalKwh = result.operations.reduce((sum, op) => sum + op.kwh, 0);
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">⏱️ Labour & Energy Drivers</h4>
+      {result.overheadModel === 'percent' || !activity ? (
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span>Labour = {(laborPct * 100).toFixed(1)}% × {rupees(result.directMaterialCost)} direct material</span>
+            <span className="font-semibold">{rupees(result.labor)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Energy = {(energyPct * 100).toFixed(1)}% × {rupees(result.directMaterialCost)} direct material</span>
+            <span className="font-semibold">{rupees(result.energy)}</span>
+          </div>
+          <div className="text-xs text-gray-500">Under this model labour and energy move with material prices; switch to activity-based in Overheads to cost them from the routing.</div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Operation</th>
+                <th className="py-3 px-2 text-right">Std Minutes</th>
+                <th className="py-3 px-2 text-right">Labour</th>
+                <th className="py-3 px-2 text-right">kWh</th>
+                <th className="py-3 px-2 text-right">Energy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.operations.map((op, i) => (
+                <tr key={i} className="border-b border-blue-100 hover:bg-blue-50/50">
+                  <td className="py-3 px-2 font-medium">{op.name}</td>
+                  <td className="py-3 px-2 text-right">{op.stdMinutes.toFixed(1)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(op.labor)}</td>
+                  <td className="py-3 px-2 text-right">{op.kwh.toFixed(2)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(op.energy)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-3 px-2">Total</td>
+                <td className="py-3 px-2 text-right">{totalMinutes.toFixed(1)}</td>
+                <td className="py-3 px-2 text-right text-green-600">{rupees(result.labor)}</td>
+                <td className="py-3 px-2 text-right">{totalKwh.toFixed(2)}</td>
+                <td className="py-3 px-2 text-right text-yellow-600">{rupees(result.energy)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500 mt-2">
+            Labour at {rupees(activity.labourRatePerHour)}/hour, energy at {rupees(activity.powerTariff)}/kWh.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Supplier Sourcing Component Interface
+interface SupplierSourcingProps {
+  suppliers: Supplier[];
+  setSuppliers: React.Dispatch<React.SetStateAction<Supplier[]>>;
+  materials: Material[];
+  procurementPlan: ProcurementPlan[];
+}
+
+function formatPriceBreaks(breaks: PriceBreak[]) {
+  return breaks.map(t => `${t.minQty}:${t.price}`).join(", ");
+}
+
+// "qty:price, qty:price"; entries that do not parse are dropped
+function parsePriceBreaks(text: string): PriceBreak[] {
+  return text.split(",")
+    .map(part => part.split(":").map(v => Number(v.trim())))
+    .filter(([minQty, price]) => Number.isFinite(minQty) && Number.isFinite(price) && minQty >= 0 && price > 0)
+    .map(([minQty, price]) => ({ minQty, price }))
+    .sort((a, b) => a.minQty - b.minQty);
+}
+
+// Edited as free text and applied on blur, so partial entries don't get dropped mid-typing
+function PriceBreaksInput({ value, onChange }: { value: PriceBreak[]; onChange: (value: PriceBreak[]) => void }) {
+  const [draft, setDraft] = useState(formatPriceBreaks(value));
+  useEffect(() => setDraft(formatPriceBreaks(value)), [value]);
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const parsed = parsePriceBreaks(draft);
+        if (parsed.length > 0) onChange(parsed);
+        else setDraft(formatPriceBreaks(value));
+      }}
+      className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm min-w-40"
+    />
+  );
+}
+
+// Supplier Sourcing Component
+function SupplierSourcingComponent({ suppliers, setSuppliers, materials, procurementPlan }: SupplierSourcingProps) {
+  const rupees = useMoneyFormatter();
+  const sourced = procurementPlan.filter(p => p.sourcing && p.netReq > 0);
+
+  const updateSupplier = (id: string, patch: Partial<Supplier>) => {
+    setSuppliers(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const addSupplier = () => {
+    const material = materials[0];
+    if (!material) return;
+    setSuppliers(prev => [...prev, {
+      id: `S_${newId()}`,
+      name: `Supplier ${prev.length + 1}`,
+      materialId: material.id,
+      currency: material.currency,
+      priceBreaks: [{ minQty: 0, price: material.newPrice }],
+      moq: 0,
+      packSize: 1,
+      leadTimeMonths: material.leadTimeMonths,
+    }]);
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="text-lg font-semibold text-gray-800">🏭 Supplier Master & Sourcing</h4>
+        <Button variant="outline" onClick={addSupplier}>➕ Add Supplier</Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+            <tr>
+              <th className="py-3 px-2 text-left">Supplier</th>
+              <th className="py-3 px-2 text-left">Material</th>
+              <th className="py-3 px-2 text-left">Currency</th>
+              <th className="py-3 px-2 text-left">Price Breaks (qty:price)</th>
+              <th className="py-3 px-2 text-right">MOQ</th>
+              <th className="py-3 px-2 text-right">Pack</th>
+              <th className="py-3 px-2 text-right">Lead (M)</th>
+              <th className="py-3 px-2 text-right">Capacity</th>
+              <th className="py-3 px-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {suppliers.map(s => (
+              <tr key={s.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                <td className="py-3 px-2">
+                  <Input
+                    value={s.name}
+                    onChange={(e) => updateSupplier(s.id, { name: e.target.value })}
+                    className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm min-w-32"
+                  />
+                </td>
+                <td className="py-3 px-2">
+                  <Select value={s.materialId} onValueChange={(v) => updateSupplier(s.id, { materialId: v })}>
+                    <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm min-w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {materials.map(m => (
+                        <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="py-3 px-2">
+                  <Select value={s.currency} onValueChange={(v) => updateSupplier(s.id, { currency: v as Currency })}>
+                    <SelectTrigger className="w-20 bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(CURRENCIES).map(code => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="py-3 px-2">
+                  <PriceBreaksInput value={s.priceBreaks} onChange={(priceBreaks) => updateSupplier(s.id, { priceBreaks })} />
+                </td>
+                <td className="py-3 px-2">
+                  <Input type="number" value={s.moq} onChange={(e) => updateSupplier(s.id, { moq: Math.max(0, Number(e.target.value) || 0) })} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm w-24 text-right" />
+                </td>
+                <td className="py-3 px-2">
+                  <Input type="number" value={s.packSize} onChange={(e) => updateSupplier(s.id, { packSize: Math.max(1, Number(e.target.value) || 1) })} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm w-20 text-right" />
+                </td>
+                <td className="py-3 px-2">
+                  <Input type="number" value={s.leadTimeMonths} onChange={(e) => updateSupplier(s.id, { leadTimeMonths: Math.max(0, Number(e.target.value) || 0) })} className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm w-16 text-right" />
+                </td>
+                <td className="py-3 px-2">
+                  <Input
+                    type="number"
+                    placeholder="∞"
+                    value={s.capacity ?? ""}
+                    onChange={(e) => updateSupplier(s.id, { capacity: e.target.value === "" ? undefined : Math.max(0, Number(e.target.value) || 0) })}
+                    className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm w-24 text-right"
+                  />
+                </td>
+                <td className="py-3 px-2 text-right">
+                  <Button variant="outline" size="sm" onClick={() => setSuppliers(prev => prev.filter(x => x.id !== s.id))}>
+                    🗑️
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {sourced.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Material</th>
+                <th className="py-3 px-2 text-right">Net Req</th>
+                <th className="py-3 px-2 text-left">Supplier</th>
+                <th className="py-3 px-2 text-right">Order Qty</th>
+                <th className="py-3 px-2 text-right">Unit Price</th>
+                <th className="py-3 px-2 text-right">Spend</th>
+                <th className="py-3 px-2 text-right">Avg Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sourced.map(p => (
+                <tr key={p.id} className="border-b border-blue-100 hover:bg-blue-50/50 align-top">
+                  <td className="py-3 px-2 font-medium">
+                    {p.name}
+                    {p.sourcing!.leadTimeBreach && (
+                      <div className="text-xs text-red-600">⚠️ No supplier within {materials.find(m => m.id === p.id)?.leadTimeMonths ?? 0} month(s) lead time</div>
+                    )}
+                  </td>
+                  <td className="py-3 px-2 text-right">{p.netReq.toLocaleString(undefined, { maximumFractionDigits: 0 })} {p.uom}</td>
+                  <td className="py-3 px-2">
+                    {p.sourcing!.allocations.map(a => (
+                      <div key={a.supplierId || a.name} className={a.supplierId ? '' : 'text-red-600'}>{a.name}</div>
+                    ))}
+                  </td>
+                  <td className="py-3 px-2 text-right">
+                    {p.sourcing!.allocations.map(a => (
+                      <div key={a.supplierId || a.name}>{a.qty.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+                    ))}
+                  </td>
+                  <td className="py-3 px-2 text-right">
+                    {p.sourcing!.allocations.map(a => (
+                      <div key={a.supplierId || a.name}>{rupees(a.unitPrice)}</div>
+                    ))}
+                  </td>
+                  <td className="py-3 px-2 text-right">{rupees(p.spend)}</td>
+                  <td className="py-3 px-2 text-right font-semibold text-purple-600">{rupees(p.avgCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500 mt-2">
+            Order quantities are rounded up to MOQ and pack; spend includes hedge cover and landed charges. Suppliers slower than the material's lead time are used only if none is fast enough.
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-gray-600">No BOM material with a net requirement has suppliers; purchases are at the material's new price.</div>
+      )}
+    </div>
+  );
+}
+
+// Price Waterfall Component Interface
+interface PriceWaterfallProps {
+  costInputs: CostInputs;
+  salesChannel: SalesChannel;
+  waterfalls: Record<SalesChannel, PriceWaterfall>;
+  setWaterfalls: React.Dispatch<React.SetStateAction<Record<SalesChannel, PriceWaterfall>>>;
+}
+
+const WATERFALL_FIELDS: Array<{ key: keyof PriceWaterfall; label: string }> = [
+  { key: 'dealerMarginPct', label: "Dealer Margin (%)" },
+  { key: 'distributorMarginPct', label: "Distributor Margin (%)" },
+  { key: 'schemePct', label: "Trade Schemes (%)" },
+  { key: 'cashDiscountPct', label: "Cash Discount (%)" },
+  { key: 'gstPct', label: "GST (%)" },
+];
+
+// Price Waterfall Component
+function PriceWaterfallComponent({ costInputs, salesChannel, waterfalls, setWaterfalls }: PriceWaterfallProps) {
+  const rupees = useMoneyFormatter();
+  const [editChannel, setEditChannel] = useState<SalesChannel>(salesChannel === 'exWorks' ? 'generalTrade' : salesChannel);
+  const mrp = costInputs.listPriceOverride ?? PRODUCTS[costInputs.sku].listPrice;
+  const waterfall = priceWaterfall(mrp, waterfalls[editChannel]);
+
+  // Each channel re-costed, since warranty follows the price realised
+  const channelRows = useMemo(() => (Object.keys(SALES_CHANNELS) as SalesChannel[]).map(channel => ({
+    channel,
+    result: computeCostsWithInventory({ ...costInputs, channel: waterfalls[channel] }),
+  })), [costInputs, waterfalls]);
+
+  // Floating bars: an invisible base carries each step down from the previous price
+  const chartData = [
+    { name: "MRP", base: 0, value: mrp, fill: "#3B82F6" },
+    ...waterfall.steps.map(step => ({ name: step.label, base: step.price, value: step.amount, fill: "#EF4444" })),
+    { name: "Net Realisation", base: 0, value: waterfall.netRealisation, fill: "#10B981" },
+  ];
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">🏷️ Price Waterfall by Channel</h4>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+            <tr>
+              <th className="py-3 px-2 text-left">Channel</th>
+              <th className="py-3 px-2 text-right">Net Realisation</th>
+              <th className="py-3 px-2 text-right">% of MRP</th>
+              <th className="py-3 px-2 text-right">Margin %</th>
+              <th className="py-3 px-2 text-right">Recommended SP (net)</th>
+              <th className="py-3 px-2 text-right">MRP for Target Margin</th>
+            </tr>
+          </thead>
+          <tbody>
+            {channelRows.map(({ channel, result: r }) => (
+              <tr key={channel} className={`border-b border-blue-100 hover:bg-blue-50/50 ${channel === salesChannel ? 'font-semibold' : ''}`}>
+                <td className="py-3 px-2">{SALES_CHANNELS[channel].label}</td>
+                <td className="py-3 px-2 text-right">{rupees(r.netRealisation)}</td>
+                <td className="py-3 px-2 text-right">{(netRealisationFactor(waterfalls[channel]) * 100).toFixed(1)}%</td>
+                <td className={`py-3 px-2 text-right ${r.marginPct >= r.targetMargin ? 'text-green-600' : 'text-red-600'}`}>{(r.marginPct * 100).toFixed(1)}%</td>
+                <td className="py-3 px-2 text-right">{rupees(r.recommendedSP)}</td>
+                <td className="py-3 px-2 text-right text-purple-600">{Number.isFinite(r.recommendedMrp) ? rupees(r.recommendedMrp) : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Channel</Label>
+          <Select value={editChannel} onValueChange={(v) => setEditChannel(v as SalesChannel)}>
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SALES_CHANNELS).map(([id, { label }]) => (
+                <SelectItem key={id} value={id}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {WATERFALL_FIELDS.map(({ key, label }) => (
+          <InputField
+            key={key}
+            label={label}
+            value={Math.round(waterfalls[editChannel][key] * 1000) / 10}
+            onChange={(v) => setWaterfalls(prev => ({ ...prev, [editChannel]: { ...prev[editChannel], [key]: Math.min(Math.max(v, 0), key === 'gstPct' ? 100 : 99) / 100 } }))}
+          />
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={280}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+          <XAxis dataKey="name" fontSize={11} />
+          <YAxis fontSize={12} tickFormatter={(v) => rupees(Number(v))} width={80} />
+          <Tooltip formatter={(value) => [rupees(Number(value)), SALES_CHANNELS[editChannel].label]} />
+          <Bar dataKey="base" stackId="waterfall" fill="transparent" tooltipType="none" />
+          <Bar dataKey="value" stackId="waterfall" radius={[4, 4, 0, 0]}>
+            {chartData.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill={entry.fill} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+      <div className="text-xs text-gray-500">
+        List price is taken as MRP including GST. Each deduction applies to the price left after the previous step, so the MRP for a target margin is the net recommended SP divided by the channel's realisation.
+      </div>
+    </div>
+  );
+}
+
+// Price Optimisation Component Interface
+interface PriceOptimisationProps {
+  optimisation: ReturnType<typeof optimisePrice>;
+  model: DemandModel;
+  setModel: (model: DemandModel) => void;
+}
+
+// Price Optimisation Component
+function PriceOptimisationComponent({ optimisation, model, setModel }: PriceOptimisationProps) {
+  const rupees = useMoneyFormatter();
+  const fit = useMemo(() => fitElasticity(model.history), [model.history]);
+  const elasticity = demandElasticity(model);
+  const { current, optimum, costPlus } = optimisation;
+
+  const updatePoint = (index: number, patch: Partial<{ price: number; units: number }>) => {
+    setModel({ ...model, history: model.history.map((h, i) => i === index ? { ...h, ...patch } : h) });
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">📈 Price Elasticity & Profit-Maximising Price</h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm text-blue-700">Demand Curve</Label>
+              <Select value={model.source} onValueChange={(v) => setModel({ ...model, source: v as DemandModel['source'] })}>
+                <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">Manual elasticity</SelectItem>
+                  <SelectItem value="fitted">Fitted from history</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {model.source === 'manual' ? (
+              <InputField label="Price Elasticity" value={model.elasticity} onChange={(v) => setModel({ ...model, elasticity: v })} />
+            ) : (
+              <div className="space-y-1 text-sm">
+                <Label className="text-sm text-blue-700">Fitted Elasticity</Label>
+                <div className="font-semibold">
+                  {fit ? `${fit.elasticity.toFixed(2)} (R² ${fit.r2.toFixed(2)})` : `Needs 2+ points, using ${model.elasticity}`}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {model.source === 'fitted' && (
+            <div className="bg-white/50 rounded-lg p-3 border border-blue-100 space-y-2">
+              <div className="text-sm font-semibold text-blue-800">Price / Volume History</div>
+              {model.history.map((h, i) => (
+                <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                  <InputField label="List Price (₹)" value={h.price} onChange={(v) => updatePoint(i, { price: v })} />
+                  <InputField label="Units" value={h.units} onChange={(v) => updatePoint(i, { units: v })} />
+                  <Button variant="outline" size="sm" onClick={() => setModel({ ...model, history: model.history.filter((_, j) => j !== i) })}>
+                    ✕
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setModel({ ...model, history: [...model.history, { price: current.price, units: Math.round(current.units) }] })}
+              >
+                ➕ Point
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Price</th>
+                <th className="py-3 px-2 text-right">List Price</th>
+                <th className="py-3 px-2 text-right">Units</th>
+                <th className="py-3 px-2 text-right">Margin %</th>
+                <th className="py-3 px-2 text-right">Contribution</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[
+                { label: "Current", point: current },
+                { label: "Cost-plus", point: costPlus },
+                { label: "Profit-maximising", point: optimum },
+              ].map(({ label, point }) => (
+                <tr key={label} className={`border-b border-blue-100 hover:bg-blue-50/50 ${point === optimum ? 'font-semibold text-green-700' : ''}`}>
+                  <td className="py-3 px-2">{label}</td>
+                  <td className="py-3 px-2 text-right">{point ? rupees(point.price) : "—"}</td>
+                  <td className="py-3 px-2 text-right">{point ? Math.round(point.units).toLocaleString() : "—"}</td>
+                  <td className="py-3 px-2 text-right">{point ? `${(point.marginPct * 100).toFixed(1)}%` : "—"}</td>
+                  <td className="py-3 px-2 text-right">{point ? rupees(point.contribution) : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {optimisation.atBound && (
+            <div className="text-xs text-red-600 mt-2">
+              ⚠️ The best price sits at the edge of the search range (60–160% of list price); demand may be too inelastic for an interior optimum.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={280}>
+        <LineChart data={optimisation.curve}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+          <XAxis dataKey="price" type="number" domain={['dataMin', 'dataMax']} fontSize={12} tickFormatter={(v) => rupees(Number(v))} />
+          <YAxis fontSize={12} tickFormatter={(v) => rupees(Number(v))} width={90} />
+          <Tooltip formatter={(value, name) => [rupees(Number(value)), name]} labelFormatter={(label) => `List price ${rupees(Number(label))}`} />
+          <Legend />
+          <ReferenceLine x={current.price} stroke="#94A3B8" strokeDasharray="4 4" label={{ value: "Current", fontSize: 11 }} />
+          {costPlus && <ReferenceLine x={costPlus.price} stroke="#F59E0B" strokeDasharray="4 4" label={{ value: "Cost-plus", fontSize: 11 }} />}
+          <ReferenceLine x={optimum.price} stroke="#10B981" label={{ value: "Optimum", fontSize: 11 }} />
+          <Line type="monotone" dataKey="contribution" name="Contribution" stroke="#3B82F6" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="profit" name="Profit (after fixed costs)" stroke="#8B5CF6" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="text-xs text-gray-500">
+        Volume at each price is forecast × (price / current list price)^{elasticity.toFixed(2)}, and every point is re-costed at that volume. Contribution is net realisation less variable cost, times volume.
+      </div>
+    </div>
+  );
+}
+
+// Break-even Component Interface
+interface BreakEvenProps {
+  costInputs: CostInputs;
+  result: CostResult;
+  pools: FixedCostPool[];
+  setPools: React.Dispatch<React.SetStateAction<FixedCostPool[]>>;
+}
+
+// Break-even Component
+function BreakEvenComponent({ costInputs, result, pools, setPools }: BreakEvenProps) {
+  const rupees = useMoneyFormatter();
+  const plant = PRODUCTS[costInputs.sku].plant;
+  const be = breakEven(result, costInputs.forecastUnits);
+  const maxUnits = Math.max(costInputs.forecastUnits, Number.isFinite(be.units) ? be.units : 0) * 1.5 || 1000;
+  const curve = useMemo(() => cvpCurve(costInputs, maxUnits), [costInputs, maxUnits]);
+  const relevant = pools.filter(p => p.scope === 'plant' ? p.target === plant : p.target === costInputs.sku);
+
+  const updatePool = (id: string, patch: Partial<FixedCostPool>) => {
+    setPools(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">⚖️ Fixed Costs & Break-even</h4>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+            <tr>
+              <th className="py-3 px-2 text-left">Pool</th>
+              <th className="py-3 px-2 text-left">Held By</th>
+              <th className="py-3 px-2 text-right">Amount / Period (₹)</th>
+              <th className="py-3 px-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {relevant.map(pool => (
+              <tr key={pool.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                <td className="py-3 px-2">
+                  <Input
+                    value={pool.name}
+                    onChange={(e) => updatePool(pool.id, { name: e.target.value })}
+                    className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm"
+                  />
+                </td>
+                <td className="py-3 px-2">
+                  <Select
+                    value={pool.scope}
+                    onValueChange={(v) => updatePool(pool.id, v === 'plant' ? { scope: 'plant', target: plant } : { scope: 'sku', target: costInputs.sku })}
+                  >
+                    <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="plant">Plant {plant} (shared)</SelectItem>
+                      <SelectItem value="sku">SKU {costInputs.sku}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="py-3 px-2">
+                  <Input
+                    type="number"
+                    value={pool.amount}
+                    onChange={(e) => updatePool(pool.id, { amount: Math.max(0, Number(e.target.value) || 0) })}
+                    className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm text-right"
+                  />
+                </td>
+                <td className="py-3 px-2 text-right">
+                  <Button variant="outline" size="sm" onClick={() => setPools(prev => prev.filter(p => p.id !== pool.id))}>
+                    🗑️
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-between items-center mt-2">
+          <div className="text-xs text-gray-500">Plant pools are shared by the plant's SKUs in proportion to forecast volume (other SKUs use their portfolio forecasts).</div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPools(prev => [...prev, { id: `FC_${newId()}`, name: "New pool", scope: 'sku', target: costInputs.sku, amount: 0 }])}
+          >
+            ➕ Add Pool
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <CostItem label="Fixed Costs (SKU share)" value={rupees(result.fixedCosts)} color="indigo" />
+        <CostItem label="Contribution / Unit" value={rupees(be.contribution)} color="green" />
+        <CostItem label="Break-even Units" value={Number.isFinite(be.units) ? Math.ceil(be.units).toLocaleString() : "Never"} color="purple" />
+        <CostItem label="Break-even Revenue" value={Number.isFinite(be.revenue) ? rupees(be.revenue) : "—"} color="blue" />
+        <CostItem label="Margin of Safety" value={Number.isFinite(be.marginOfSafety) ? `${(be.marginOfSafety * 100).toFixed(1)}%` : "—"} color={be.marginOfSafety >= 0 ? "green" : "pink"} />
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={curve}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+          <XAxis dataKey="units" fontSize={12} tickFormatter={(v) => Number(v).toLocaleString()} />
+          <YAxis fontSize={12} tickFormatter={(v) => rupees(Number(v))} width={90} />
+          <Tooltip formatter={(value, name) => [rupees(Number(value)), name]} labelFormatter={(label) => `${Number(label).toLocaleString()} units`} />
+          <Legend />
+          <ReferenceLine y={0} stroke="#94A3B8" />
+          <ReferenceLine x={costInputs.forecastUnits} stroke="#F59E0B" strokeDasharray="4 4" label={{ value: "Forecast", fontSize: 11 }} />
+          <Line type="monotone" dataKey="revenue" name="Revenue" stroke="#10B981" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="totalCost" name="Total Cost" stroke="#EF4444" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="profit" name="Profit" stroke="#3B82F6" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="text-xs text-gray-500">
+        Each volume is re-costed, so stock at old cost and supplier price breaks bend the cost line; the SKU's fixed cost share is held at its forecast-volume value.
+      </div>
+    </div>
+  );
+}
+
+// Landed Cost Component
+function LandedCostComponent({
+  materials,
+  procurementPlan,
+  onUpdate
+}: {
+  materials: Material[];
+  procurementPlan: ProcurementPlan[];
+  onUpdate: (materialId: string, terms: LandedCostTerms | undefined) => void;
+}) {
+  const rupees = useMoneyFormatter();
+  const bomMaterials = materials.filter(m => (procurementPlan.find(p => p.id === m.id)?.bomQty ?? 0) > 0);
+  const [selectedId, setSelectedId] = useState(bomMaterials.find(m => m.landed)?.id ?? bomMaterials[0]?.id ?? '');
+  const selected = materials.find(m => m.id === selectedId);
+  const terms = selected?.landed;
+  const updateTerms = (patch: Partial<LandedCostTerms>) => {
+    if (selected) onUpdate(selected.id, { ...(terms ?? IMPORT_LANDED_TERMS), ...patch });
+  };
+
+  return (
+    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6 space-y-4">
+      <h4 className="text-lg font-semibold text-gray-800">🚢 Landed Cost Build-up (per UOM)</h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm text-blue-700">Material</Label>
+          <Select value={selectedId} onValueChange={setSelectedId}>
+            <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {bomMaterials.map(m => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {terms ? (
+          <>
+            <InputField label="BCD (%)" value={Math.round(terms.bcdPct * 1000) / 10} onChange={(v) => updateTerms({ bcdPct: Math.max(0, v) / 100 })} />
+            <InputField label="SWS (% of BCD)" value={Math.round(terms.swsPct * 1000) / 10} onChange={(v) => updateTerms({ swsPct: Math.max(0, v) / 100 })} />
+            <InputField label="GST (%)" value={Math.round(terms.gstPct * 1000) / 10} onChange={(v) => updateTerms({ gstPct: Math.max(0, v) / 100 })} />
+            <InputField label="Clearing (₹/UOM)" value={terms.clearingPerUnit} onChange={(v) => updateTerms({ clearingPerUnit: Math.max(0, v) })} />
+            <InputField label="Inbound Freight (₹/UOM)" value={terms.inboundFreightPerUnit} onChange={(v) => updateTerms({ inboundFreightPerUnit: Math.max(0, v) })} />
+            <div className="space-y-1">
+              <Label className="text-sm text-blue-700">GST Input Credit</Label>
+              <Select value={terms.gstRecoverable ? 'yes' : 'no'} onValueChange={(v) => updateTerms({ gstRecoverable: v === 'yes' })}>
+                <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yes">Recoverable</SelectItem>
+                  <SelectItem value="no">Not recoverable</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={() => selected && onUpdate(selected.id, undefined)}>
+                Remove Landed Terms
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-end">
+            <Button variant="outline" onClick={() => updateTerms({})} disabled={!selected}>
+              ➕ Add Landed Terms
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+            <tr>
+              <th className="py-3 px-2 text-left">Material</th>
+              <th className="py-3 px-2 text-right">Price (INR)</th>
+              <th className="py-3 px-2 text-right">BCD</th>
+              <th className="py-3 px-2 text-right">SWS</th>
+              <th className="py-3 px-2 text-right">Clearing</th>
+              <th className="py-3 px-2 text-right">Inbound Freight</th>
+              <th className="py-3 px-2 text-right">GST Paid</th>
+              <th className="py-3 px-2 text-right">GST Credit</th>
+              <th className="py-3 px-2 text-right">Landed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bomMaterials.map(m => {
+              const b = landedCostBuildUp(m.landed, m.newPrice);
+              return (
+                <tr key={m.id} className={`border-b border-blue-100 hover:bg-blue-50/50 ${m.landed ? '' : 'text-gray-400'}`}>
+                  <td className="py-3 px-2 font-medium">{m.name}</td>
+                  <td className="py-3 px-2 text-right">{rupees(b.price)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(b.bcd)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(b.sws)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(b.clearing)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(b.inboundFreight)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(b.gst)}</td>
+                  <td className="py-3 px-2 text-right text-green-600">{b.gstCredit > 0 ? `−${rupees(b.gstCredit)}` : rupees(0)}</td>
+                  <td className="py-3 px-2 text-right font-semibold text-purple-600">{rupees(b.landedPrice)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-gray-500">
+        Prices are at today's FX rates and exclude hedge cover. The landed price replaces new price in the procurement plan and moving-average cost.
+      </div>
+    </div>
+  );
+}
+
+// Portfolio Component
+function PortfolioComponent({
+  forecasts,
+  setForecasts,
+  allocationRule,
+  setAllocationRule,
+  priority,
+  onMovePriority,
+  portfolio
+}: {
+  forecasts: Record<keyof typeof PRODUCTS, number>;
+  setForecasts: React.Dispatch<React.SetStateAction<Record<keyof typeof PRODUCTS, number>>>;
+  allocationRule: AllocationRule;
+  setAllocationRule: (rule: AllocationRule) => void;
+  priority: Array<keyof typeof PRODUCTS>;
+  onMovePriority: (sku: keyof typeof PRODUCTS, offset: number) => void;
+  portfolio: ReturnType<typeof computePortfolioCosts>;
+}) {
+  const rupees = useMoneyFormatter();
+  const plan = portfolio.procurementPlan.filter(p => p.grossReq > 0);
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-xl font-semibold text-teal-800">🏭 Portfolio Simulation</h3>
 
-  // Calculate direct material cost per unit using moving average costs
-  const directMaterialCost = procurementPlan.reduce((sum, p) => sum + (p.bomQty * p.avgCost), 0);
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {(Object.keys(PRODUCTS) as Array<keyof typeof PRODUCTS>).map(id => (
+            <InputField
+              key={id}
+              label={`${id} Forecast Units`}
+              value={forecasts[id]}
+              onChange={(v) => setForecasts(prev => ({ ...prev, [id]: v }))}
+            />
+          ))}
+          <div className="space-y-1">
+            <Label className="text-sm text-blue-700">Stock Allocation</Label>
+            <Select value={allocationRule} onValueChange={(v) => setAllocationRule(v as AllocationRule)}>
+              <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ALLOCATION_RULES).map(([id, label]) => (
+                  <SelectItem key={id} value={id}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
 
-  const labor = directMaterialCost * laborPct;
-  const energy = directMaterialCost * energyPct;
-  const warranty = listPrice * warrantyPct;
+        {allocationRule === 'priority' && (
+          <div className="mt-4 flex flex-wrap gap-2 items-center text-sm">
+            <span className="text-gray-600">Priority:</span>
+            {priority.map((id, index) => (
+              <div key={id} className="flex items-center gap-1 bg-white/60 rounded-lg px-2 py-1">
+                <span className="font-semibold text-teal-700">{index + 1}. {id}</span>
+                <Button variant="ghost" size="sm" onClick={() => onMovePriority(id, -1)} disabled={index === 0}>↑</Button>
+                <Button variant="ghost" size="sm" onClick={() => onMovePriority(id, 1)} disabled={index === priority.length - 1}>↓</Button>
+              </div>
+            ))}
+          </div>
+        )}
+        {allocationRule === 'marginFirst' && (
+          <div className="mt-4 text-sm text-gray-600">
+            Claim order by margin at replacement cost: <span className="font-semibold text-teal-700">{portfolio.claimOrder.join(' → ')}</span>
+          </div>
+        )}
+      </div>
 
-  const totalCost = directMaterialCost + labor + energy + freight + warranty;
-  const marginInr = listPrice - totalCost;
-  const marginPct = listPrice > 0 ? marginInr / listPrice : 0;
-  const recommendedSP = (1 - targetMargin) > 0 ? (totalCost / (1 - targetMargin)) : totalCost;
+      {/* Per-SKU results */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">📋 Unit Cost & Margin by SKU</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">SKU</th>
+                <th className="py-3 px-2 text-right">Units</th>
+                <th className="py-3 px-2 text-right">Direct Material</th>
+                <th className="py-3 px-2 text-right">Unit Cost</th>
+                <th className="py-3 px-2 text-right">List Price</th>
+                <th className="py-3 px-2 text-right">Margin %</th>
+                <th className="py-3 px-2 text-right">Recommended SP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.skuResults.map(({ sku, forecastUnits, result }) => (
+                <tr key={sku} className="border-b border-blue-100 hover:bg-blue-50/50">
+                  <td className="py-3 px-2 font-medium">{sku} – {PRODUCTS[sku].name}</td>
+                  <td className="py-3 px-2 text-right">{forecastUnits.toLocaleString()}</td>
+                  <td className="py-3 px-2 text-right">{rupees(result.directMaterialCost)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(result.totalCost)}</td>
+                  <td className="py-3 px-2 text-right">{rupees(result.listPrice)}</td>
+                  <td className="py-3 px-2 text-right">{(result.marginPct * 100).toFixed(1)}%</td>
+                  <td className="py-3 px-2 text-right font-semibold text-green-600">{rupees(result.recommendedSP)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-3 px-2">Portfolio</td>
+                <td className="py-3 px-2 text-right">{portfolio.skuResults.reduce((sum, r) => sum + r.forecastUnits, 0).toLocaleString()}</td>
+                <td className="py-3 px-2 text-right" colSpan={2}>{rupees(portfolio.totalCost)}</td>
+                <td className="py-3 px-2 text-right">{rupees(portfolio.revenue)}</td>
+                <td className="py-3 px-2 text-right">{(portfolio.marginPct * 100).toFixed(1)}%</td>
+                <td className="py-3 px-2"></td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
 
-  return {
-    procurementPlan,
-    directMaterialCost,
-    labor,
-    energy,
-    freight,
-    warranty,
-    totalCost,
-    listPrice,
-    marginInr,
-    marginPct,
-    targetMargin,
-    recommendedSP
-  };
+      {/* Combined procurement plan */}
+      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+        <h4 className="text-lg font-semibold text-gray-800 mb-4">🛒 Combined Procurement Plan</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-blue-700 font-semibold border-b border-blue-200">
+              <tr>
+                <th className="py-3 px-2 text-left">Material</th>
+                <th className="py-3 px-2 text-right">Gross Req</th>
+                <th className="py-3 px-2 text-right">On-hand</th>
+                <th className="py-3 px-2 text-right">Procure</th>
+                <th className="py-3 px-2 text-right">Spend</th>
+                <th className="py-3 px-2 text-right">Moving Avg Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.map(p => (
+                <tr key={p.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                  <td className="py-3 px-2 font-medium">{p.name}</td>
+                  <td className="py-3 px-2 text-right">{p.grossReq.toLocaleString(undefined, { maximumFractionDigits: 0 })} {p.uom}</td>
+                  <td className="py-3 px-2 text-right">{p.onHand.toLocaleString()}</td>
+                  <td className="py-3 px-2 text-right">{p.procureQty.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                  <td className="py-3 px-2 text-right">{rupees(p.spend)}</td>
+                  <td className="py-3 px-2 text-right font-semibold text-purple-600">{rupees(p.avgCost)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-3 px-2" colSpan={4}>Total Spend</td>
+                <td className="py-3 px-2 text-right">{rupees(portfolio.totalSpend)}</td>
+                <td className="py-3 px-2"></td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
 }
 
 export default function StabiliserSimulator() {
   const [sku, setSku] = useState<keyof typeof PRODUCTS>("P100");
   const [forecastUnits, setForecastUnits] = useState(10000);
   const [materials, setMaterials] = useState<Material[]>(MATERIALS);
+  const [bom, setBom] = useState<Record<keyof typeof PRODUCTS, BomLine[]>>(BOM);
   const [laborPct, setLaborPct] = useState(0.08);
   const [energyPct, setEnergyPct] = useState(0.04);
+  const [overheadModel, setOverheadModel] = useState<OverheadModel>('percent');
+  const [routings, setRoutings] = useState<Record<keyof typeof PRODUCTS, Operation[]>>(ROUTINGS);
+  const [plants, setPlants] = useState<Record<string, Plant>>(PLANTS);
   const [freight, setFreight] = useState(60);
   const [warrantyPct, setWarrantyPct] = useState(0.01);
   const [targetMargin, setTargetMargin] = useState(PRODUCTS[sku].targetMargin);
   const [listPrice, setListPrice] = useState(PRODUCTS[sku].listPrice);
+  const [valuationMethod, setValuationMethod] = useState<ValuationMethod>('movingAverage');
+
+  const [substitutions, setSubstitutions] = useState<SubstitutionRule[]>(SUBSTITUTIONS);
+
+  // FX: quoted prices convert to INR in the engine; rupees() reports in the chosen currency
+  const [fx, setFx] = useState<FxSettings>(DEFAULT_FX);
+  const [reportCurrency, setReportCurrency] = useState<Currency>('INR');
+  const displayMoney = useMemo<DisplayMoney>(() => ({ currency: reportCurrency, inrPerUnit: inrRate(reportCurrency, fx) }), [reportCurrency, fx]);
+  const rupees = moneyFormatter(displayMoney);
+  const inrMaterials = useMemo(() => materialsInInr(materials, fx), [materials, fx]);
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>(SUPPLIERS);
+
+  // Fixed cost pools; plant pools are shared by volume, using the portfolio forecasts for the other SKUs
+  const [fixedCostPools, setFixedCostPools] = useState<FixedCostPool[]>(FIXED_COST_POOLS);
+  const [portfolioForecasts, setPortfolioForecasts] = useState<Record<keyof typeof PRODUCTS, number>>({ P100: 10000, P200: 6000, P300: 8000 });
+
+  // List price is the MRP of the selected channel; margins are on what the company realises
+  const [salesChannel, setSalesChannel] = useState<SalesChannel>('exWorks');
+  const [channelWaterfalls, setChannelWaterfalls] = useState<Record<SalesChannel, PriceWaterfall>>(defaultChannelWaterfalls);
+
+  const [demandModels, setDemandModels] = useState<Record<keyof typeof PRODUCTS, DemandModel>>(DEMAND_MODELS);
 
-  const result = useMemo(() => computeCostsWithInventory({
+  // Hedge book of executed positions, persisted to localStorage
+  const [hedgeBook, setHedgeBook] = useState<HedgePosition[]>(loadHedgeBook);
+  const today = toIsoDate(new Date());
+
+  useEffect(() => {
+    persistHedgeBook(hedgeBook);
+  }, [hedgeBook]);
+
+  const bookCover = useMemo(() => hedgeBookCover(hedgeBook, inrMaterials, today), [hedgeBook, inrMaterials, today]);
+
+  // Planned hedges per material; they cover purchases on top of the hedge book
+  const [hedges, setHedges] = useState<Record<string, HedgingStrategy>>(() =>
+    Object.fromEntries(MATERIALS.filter(m => m.id === "M_COPPER").map(m => [m.id, defaultHedgingStrategy(m)]))
+  );
+
+  const bookCostInputs = useMemo<CostInputs>(() => ({
     sku,
     forecastUnits,
     materials,
+    bom: bom[sku],
     listPriceOverride: listPrice,
     targetMarginOverride: targetMargin,
     laborPct,
     energyPct,
     freight,
     warrantyPct,
-  }), [sku, forecastUnits, materials, listPrice, targetMargin, laborPct, energyPct, freight, warrantyPct]);
+    valuationMethod,
+    hedgeCover: bookCover,
+    fx,
+    suppliers,
+    activity: overheadModel === 'activity' ? activityCosting(sku, routings, plants) : undefined,
+    fixedCosts: skuFixedCost(fixedCostPools, sku, { ...portfolioForecasts, [sku]: forecastUnits }),
+    channel: channelWaterfalls[salesChannel],
+  }), [sku, forecastUnits, materials, bom, listPrice, targetMargin, laborPct, energyPct, freight, warrantyPct, valuationMethod, bookCover, fx, suppliers, overheadModel, routings, plants, fixedCostPools, portfolioForecasts, channelWaterfalls, salesChannel]);
+
+  const effectiveBom = useMemo(() => applySubstitutions(bom[sku], substitutions, materials), [bom, sku, substitutions, materials]);
+
+  // Costed with the hedge book alone: sizes the planned hedges and is the baseline of the hedge summary
+  const unhedgedResult = useMemo(() => computeCostsWithInventory({ ...bookCostInputs, bom: effectiveBom }), [bookCostInputs, effectiveBom]);
+  const hedgeCover = useMemo(
+    () => strategyHedgeCover(hedges, inrMaterials, unhedgedResult.procurementPlan, bookCover, today),
+    [hedges, inrMaterials, unhedgedResult, bookCover, today]
+  );
+  const costInputs = useMemo<CostInputs>(() => ({ ...bookCostInputs, hedgeCover }), [bookCostInputs, hedgeCover]);
 
-  const updateMaterial = (index: number, field: keyof Material, value: number) => {
+  // Cost inputs with substitutions applied: what the headline result is computed from
+  const effectiveCostInputs = useMemo<CostInputs>(() => ({ ...costInputs, bom: effectiveBom }), [costInputs, effectiveBom]);
+  const priceOptimisation = useMemo(
+    () => optimisePrice(effectiveCostInputs, demandElasticity(demandModels[sku])),
+    [effectiveCostInputs, demandModels, sku]
+  );
+
+  const result = useMemo(() => computeCostsWithInventory(effectiveCostInputs), [effectiveCostInputs]);
+
+  // Same inputs without substitution, used to report the substitution delta
+  const baselineResult = useMemo(() => computeCostsWithInventory(costInputs), [costInputs]);
+
+  // Unit cost moved by the FX shock alone
+  const fxShockImpact = useMemo(
+    () => fx.shockPct === 0 ? 0 : result.totalCost - computeCostsWithInventory({ ...effectiveCostInputs, fx: { ...fx, shockPct: 0 } }).totalCost,
+    [fx, result, effectiveCostInputs]
+  );
+
+  // Same inputs under every valuation method, for the side-by-side view
+  const valuationComparison = useMemo(() => (Object.keys(VALUATION_METHODS) as ValuationMethod[]).map(method => ({
+    method,
+    result: computeCostsWithInventory({ ...effectiveCostInputs, valuationMethod: method })
+  })), [effectiveCostInputs]);
+
+  // Portfolio mode state
+  const [allocationRule, setAllocationRule] = useState<AllocationRule>('proRata');
+  const [skuPriority, setSkuPriority] = useState<Array<keyof typeof PRODUCTS>>(["P100", "P200", "P300"]);
+
+  const portfolio = useMemo(() => {
+    const skus = Object.keys(PRODUCTS) as Array<keyof typeof PRODUCTS>;
+    const byProduct = <T,>(pick: (sku: keyof typeof PRODUCTS) => T) =>
+      Object.fromEntries(skus.map(k => [k, pick(k)])) as Record<keyof typeof PRODUCTS, T>;
+
+    return computePortfolioCosts({
+      forecasts: portfolioForecasts,
+      materials,
+      boms: byProduct(k => applySubstitutions(bom[k], substitutions, materials)),
+      // The selected SKU uses the price and margin being edited
+      listPrices: byProduct(k => k === sku ? listPrice : PRODUCTS[k].listPrice),
+      targetMargins: byProduct(k => k === sku ? targetMargin : PRODUCTS[k].targetMargin),
+      allocationRule,
+      priority: skuPriority,
+      laborPct,
+      energyPct,
+      freight,
+      warrantyPct,
+      fx,
+      suppliers,
+      valuationMethod,
+      hedgeCover,
+      activity: overheadModel === 'activity' ? byProduct(k => activityCosting(k, routings, plants)) : undefined,
+      fixedCostPools,
+      channel: channelWaterfalls[salesChannel],
+    });
+  }, [portfolioForecasts, materials, bom, substitutions, sku, listPrice, targetMargin, allocationRule, skuPriority, laborPct, energyPct, freight, warrantyPct, fx, suppliers, valuationMethod, hedgeCover, overheadModel, routings, plants, fixedCostPools, channelWaterfalls, salesChannel]);
+
+  // Monthly MRP phasing: each month's share of forecastUnits, so the months follow forecast edits.
+  // Editing a month's units re-phases and makes their sum the new forecast.
+  const [demandPhasing, setDemandPhasing] = useState<number[]>(() => Array.from({ length: 12 }, () => 1 / 12));
+  const monthlyDemand = useMemo(() => phaseDemand(forecastUnits, demandPhasing), [forecastUnits, demandPhasing]);
+  const setMonthlyDemand = (units: number[]) => {
+    setForecastUnits(units.reduce((sum, u) => sum + u, 0));
+    setDemandPhasing(demandShares(units));
+  };
+
+  const mrp = useMemo(() => computeMrpPlan({ ...effectiveCostInputs, monthlyDemand }), [effectiveCostInputs, monthlyDemand]);
+
+  const moveSkuPriority = (target: keyof typeof PRODUCTS, offset: number) => {
+    setSkuPriority(prev => {
+      const from = prev.indexOf(target);
+      const to = from + offset;
+      if (to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  const updateSubstitution = (id: string, field: 'pct' | 'ratio', value: number) => {
+    setSubstitutions(prev => prev.map(r => {
+      if (r.id !== id) return r;
+      return field === 'pct'
+        ? { ...r, pct: Math.min(Math.max(value, 0), r.maxPct) }
+        : { ...r, ratio: Math.max(value, 0) };
+    }));
+  };
+
+  // A new price moves the material's supplier quotes with it, as the price drivers do
+  const updateMaterial = (index: number, field: keyof Material, value: Material[keyof Material]) => {
+    const material = materials[index];
+    if (field === 'newPrice' && material && material.newPrice > 0) {
+      setSuppliers(prev => scaleSupplierQuotes(prev, { [material.id]: (value as number) / material.newPrice }) ?? prev);
+    }
     setMaterials(prev => prev.map((m, i) => i === index ? { ...m, [field]: value } : m));
   };
 
+  const updatePlant = (plantId: string, patch: Partial<Plant>) => {
+    setPlants(prev => ({ ...prev, [plantId]: { ...(prev[plantId] ?? { name: plantId, labourRatePerHour: 0, powerTariff: 0 }), ...patch } }));
+  };
+
+  const updateLandedTerms = (materialId: string, terms: LandedCostTerms | undefined) => {
+    setMaterials(prev => prev.map(m => m.id === materialId ? { ...m, landed: terms } : m));
+  };
+
+  // BOM edits apply to the selected SKU only; a zero quantity drops the line
+  const updateBomQty = (material: Material, qty: number) => {
+    setBom(prev => {
+      const lines = prev[sku].filter(l => l.materialId !== material.id);
+      const next = qty > 0 ? [...lines, { materialId: material.id, qty, uom: material.uom }] : lines;
+      return { ...prev, [sku]: next };
+    });
+  };
+
+  // Merge imported rows into the material master and the selected SKU's BOM. Like a
+  // newPrice edit, an imported price move scales the material's supplier quotes
+  const applyImport = (rows: ImportRow[]) => {
+    const ratios = importPriceRatios(rows, materials, fx);
+    if (Object.keys(ratios).length > 0) setSuppliers(prev => scaleSupplierQuotes(prev, ratios) ?? prev);
+    setMaterials(prev => {
+      const next = [...prev];
+      rows.forEach(r => {
+        if (!r.material) return;
+        const index = next.findIndex(m => m.id === r.material!.id);
+        if (index >= 0) next[index] = r.material;
+        else next.push(r.material);
+      });
+      return next;
+    });
+    rows.forEach(r => {
+      if (r.material && r.bomQty !== undefined) updateBomQty(r.material, r.bomQty);
+    });
+  };
+
 
   // Chart data preparations
   const costBreakdownData = [
     { name: 'Direct Material', value: result.directMaterialCost, color: '#3B82F6' },
+    { name: 'Scrap (net)', value: Math.max(0, result.scrapLoss - result.scrapCredit), color: '#64748B' },
     { name: 'Labor', value: result.labor, color: '#10B981' },
     { name: 'Energy', value: result.energy, color: '#F59E0B' },
     { name: 'Freight', value: result.freight, color: '#8B5CF6' },
-    { name: 'Warranty', value: result.warranty, color: '#EF4444' }
+    { name: 'Warranty', value: result.warranty, color: '#EF4444' },
+    { name: 'Fixed Costs', value: result.fixedCost, color: '#0EA5E9' }
   ];
 
   const materialCostData = result.procurementPlan
@@ -460,439 +3098,819 @@ export default function StabiliserSimulator() {
     }))
     .sort((a, b) => b.spend - a.spend);
 
-  // Sample trend data (in real app, this would come from historical data)
-  const priceTrendData = [
-    { month: 'Jan', copper: 780, steel: 140, plastic: 165 },
-    { month: 'Feb', copper: 800, steel: 145, plastic: 170 },
-    { month: 'Mar', copper: 830, steel: 148, plastic: 172 },
-    { month: 'Apr', copper: 790, steel: 150, plastic: 175 },
-    { month: 'May', copper: 820, steel: 152, plastic: 178 },
-    { month: 'Jun', copper: 880, steel: 155, plastic: 180 },
-  ];
-
-  // Scenario comparison data 
-  const [scenarios, setScenarios] = useState<Array<{name: string, result: any}>>([]);
-  
   // Hedging functionality state
-  const [copperPredictions, setCopperPredictions] = useState<Array<{month: string, predictedPrice: number, confidence: number}>>([]);
-  const [hedgingStrategy, setHedgingStrategy] = useState<{spotPercentage: number, hedgedPercentage: number, avgHedgedPrice: number}>({spotPercentage: 100, hedgedPercentage: 0, avgHedgedPrice: 0});
-  const [isLoadingPredictions, setIsLoadingPredictions] = useState(false);
-  
+  const [hedgePredictions, setHedgePredictions] = useState<Record<string, PricePrediction[]>>({});
+
+  // Price history store, persisted to localStorage
+  const [priceHistory, setPriceHistory] = useState<PricePoint[]>(loadPriceHistory);
+
+  useEffect(() => {
+    persistPriceHistory(priceHistory);
+  }, [priceHistory]);
+
+  const hedgeHistories = useMemo(
+    () => monthlyPriceSeries(priceHistory, Object.keys(hedges)),
+    [priceHistory, hedges]
+  );
+
+  const hedgeSummary = useMemo(
+    () => summariseHedges({ hedges, bookCover, cover: hedgeCover, unhedged: unhedgedResult, hedged: result }),
+    [hedges, bookCover, hedgeCover, unhedgedResult, result]
+  );
+
+  // Old cost becomes the average historical price over the chosen range
+  const applyHistoryBaseline = (from: string, to: string) => {
+    setMaterials(prev => prev.map(m => {
+      const prices = priceHistory.filter(p => p.materialId === m.id && p.date >= from && p.date <= to).map(p => p.price);
+      return prices.length ? { ...m, oldCost: Math.round(prices.reduce((sum, v) => sum + v, 0) / prices.length * 100) / 100 } : m;
+    }));
+  };
+
+  // Saved scenarios, persisted to localStorage
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(loadScenarios);
+  const [scenarioName, setScenarioName] = useState("");
+
+  useEffect(() => {
+    persistScenarios(scenarios);
+  }, [scenarios]);
+
+  const scenarioResults = useMemo(() => scenarios.map(s => ({
+    scenario: s,
+    result: computeCostsWithInventory(scenarioCostInputs(s.inputs))
+  })), [scenarios]);
+
   const addScenario = () => {
-    const scenarioName = `Scenario ${scenarios.length + 1}`;
-    setScenarios(prev => [...prev, { name: scenarioName, result: {...result} }]);
+    const inputs: ScenarioInputs = {
+      sku, forecastUnits, materials, bom, substitutions, listPrice, targetMargin,
+      laborPct, energyPct, freight, warrantyPct, valuationMethod, hedges, fx, suppliers,
+      overheadModel, routings, plants, fixedCostPools, portfolioForecasts, salesChannel, channelWaterfalls,
+      demandModels, monthlyDemand, allocationRule, skuPriority, reportCurrency, hedgeBook,
+    };
+    setScenarios(prev => [...prev, {
+      schemaVersion: SCENARIO_SCHEMA_VERSION,
+      id: newId(),
+      name: scenarioName.trim() || `Scenario ${prev.length + 1}`,
+      savedAt: new Date().toISOString(),
+      inputs,
+    }]);
+    setScenarioName("");
+  };
+
+  const loadScenario = ({ inputs }: SavedScenario) => {
+    setSku(inputs.sku);
+    setForecastUnits(inputs.forecastUnits);
+    setMaterials(inputs.materials);
+    setBom(inputs.bom);
+    setSubstitutions(inputs.substitutions);
+    setListPrice(inputs.listPrice);
+    setTargetMargin(inputs.targetMargin);
+    setLaborPct(inputs.laborPct);
+    setEnergyPct(inputs.energyPct);
+    setFreight(inputs.freight);
+    setWarrantyPct(inputs.warrantyPct);
+    setValuationMethod(inputs.valuationMethod);
+    setHedges(inputs.hedges);
+    setFx(inputs.fx);
+    setSuppliers(inputs.suppliers);
+    setOverheadModel(inputs.overheadModel);
+    setRoutings(inputs.routings);
+    setPlants(inputs.plants);
+    setFixedCostPools(inputs.fixedCostPools);
+    setPortfolioForecasts(inputs.portfolioForecasts);
+    setSalesChannel(inputs.salesChannel);
+    setChannelWaterfalls(inputs.channelWaterfalls);
+    setDemandModels(inputs.demandModels);
+    setDemandPhasing(demandShares(inputs.monthlyDemand));
+    setAllocationRule(inputs.allocationRule);
+    setSkuPriority(inputs.skuPriority);
+    setReportCurrency(inputs.reportCurrency);
+    setHedgeBook(inputs.hedgeBook);
+  };
+
+  const renameScenario = (id: string, name: string) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+  };
+
+  const duplicateScenario = (scenario: SavedScenario) => {
+    setScenarios(prev => [...prev, { ...scenario, id: newId(), name: `${scenario.name} (copy)`, savedAt: new Date().toISOString() }]);
+  };
+
+  const deleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
   };
 
   const clearScenarios = () => setScenarios([]);
 
-  const scenarioComparisonData = scenarios.map(s => ({
-    name: s.name,
-    totalCost: s.result.totalCost,
-    margin: s.result.marginPct * 100,
-    directMaterial: s.result.directMaterialCost
+  const scenarioComparisonData = scenarioResults.map(({ scenario, result: r }) => ({
+    name: scenario.name,
+    totalCost: r.totalCost,
+    margin: r.marginPct * 100,
+    directMaterial: r.directMaterialCost
   }));
 
   return (
-    <div className="min-h-screen w-full p-4 bg-gradient-to-br from-blue-50 via-white to-blue-100">
-      {/* Animated background elements */}
-      <div className="fixed inset-0 overflow-hidden pointer-events-none">
-        <div className="absolute top-10 left-10 w-72 h-72 bg-blue-200 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob"></div>
-        <div className="absolute top-20 right-10 w-72 h-72 bg-purple-200 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob animation-delay-2000"></div>
-        <div className="absolute -bottom-8 left-20 w-72 h-72 bg-pink-200 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob animation-delay-4000"></div>
-      </div>
-
-      <div className="relative z-10 max-w-7xl mx-auto">
-        <motion.div 
-          initial={{ opacity: 0, y: -20 }} 
-          animate={{ opacity: 1, y: 0 }} 
-          className="text-center mb-8"
-        >
-          <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-2">
-            ✨ Stabiliser Cost Simulator
-          </h1>
-          <div className="inline-flex items-center px-4 py-2 bg-white/40 backdrop-blur-lg rounded-full border border-white/30 shadow-lg">
-            <span className="text-blue-700 font-medium">📊 Forecast + Inventory Analysis</span>
-          </div>
-        </motion.div>
+    <MoneyContext.Provider value={displayMoney}>
+      <div className="min-h-screen w-full p-4 bg-gradient-to-br from-blue-50 via-white to-blue-100">
+        {/* Animated background elements */}
+        <div className="fixed inset-0 overflow-hidden pointer-events-none">
+          <div className="absolute top-10 left-10 w-72 h-72 bg-blue-200 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob"></div>
+          <div className="absolute top-20 right-10 w-72 h-72 bg-purple-200 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob animation-delay-2000"></div>
+          <div className="absolute -bottom-8 left-20 w-72 h-72 bg-pink-200 rounded-full mix-blend-multiply filter blur-xl opacity-30 animate-blob animation-delay-4000"></div>
+        </div>
 
-        {/* Key Stats Row */}
-        <motion.div 
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8"
-        >
-          <StatsCard label="Direct Material" value={rupees(result.directMaterialCost)} color="blue" />
-          <StatsCard label="Total Cost" value={rupees(result.totalCost)} color="purple" />
-          <StatsCard label="Margin" value={(result.marginPct * 100).toFixed(1) + "%"} color="green" />
-          <StatsCard label="Recommended SP" value={rupees(result.recommendedSP)} color="orange" />
-        </motion.div>
-
-        <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
-          {/* LEFT: Inputs - Takes 2 columns */}
-          <div className="xl:col-span-2 space-y-6">
-            {/* SKU Controls */}
-            <GlassCard>
-              <h3 className="text-xl font-semibold text-blue-800 mb-4 flex items-center">
-                🎯 Product Settings
-              </h3>
+        <div className="relative z-10 max-w-7xl mx-auto">
+          <motion.div 
+            initial={{ opacity: 0, y: -20 }} 
+            animate={{ opacity: 1, y: 0 }} 
+            className="text-center mb-8"
+          >
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-2">
+              ✨ Stabiliser Cost Simulator
+            </h1>
+            <div className="inline-flex items-center px-4 py-2 bg-white/40 backdrop-blur-lg rounded-full border border-white/30 shadow-lg">
+              <span className="text-blue-700 font-medium">📊 Forecast + Inventory Analysis</span>
+            </div>
+          </motion.div>
+
+          {/* Key Stats Row */}
+          <motion.div 
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8"
+          >
+            <StatsCard label="Direct Material" value={rupees(result.directMaterialCost)} color="blue" />
+            <StatsCard label="Total Cost" value={rupees(result.totalCost)} color="purple" />
+            <StatsCard label="Margin" value={(result.marginPct * 100).toFixed(1) + "%"} color="green" />
+            <StatsCard label="Recommended SP" value={rupees(result.recommendedSP)} color="orange" />
+          </motion.div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+            {/* LEFT: Inputs - Takes 2 columns */}
+            <div className="xl:col-span-2 space-y-6">
+              {/* SKU Controls */}
+              <GlassCard>
+                <h3 className="text-xl font-semibold text-blue-800 mb-4 flex items-center">
+                  🎯 Product Settings
+                </h3>
               
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label className="text-blue-700 font-medium">SKU</Label>
-                  <Select value={sku} onValueChange={(v) => {
-                    setSku(v as keyof typeof PRODUCTS);
-                    setTargetMargin(PRODUCTS[v as keyof typeof PRODUCTS].targetMargin);
-                    setListPrice(PRODUCTS[v as keyof typeof PRODUCTS].listPrice);
-                  }}>
-                    <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {Object.entries(PRODUCTS).map(([id, p]) => (
-                        <SelectItem key={id} value={id}>{id} – {p.name}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-blue-700 font-medium">SKU</Label>
+                    <Select value={sku} onValueChange={(v) => {
+                      setSku(v as keyof typeof PRODUCTS);
+                      setTargetMargin(PRODUCTS[v as keyof typeof PRODUCTS].targetMargin);
+                      setListPrice(PRODUCTS[v as keyof typeof PRODUCTS].listPrice);
+                    }}>
+                      <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PRODUCTS).map(([id, p]) => (
+                          <SelectItem key={id} value={id}>{id} – {p.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label className="text-blue-700 font-medium">Forecast Units</Label>
-                  <Input 
-                    type="number" 
-                    value={forecastUnits} 
-                    onChange={(e) => setForecastUnits(Number(e.target.value) || 0)}
-                    className="bg-white/50 border-blue-200 focus:border-blue-400"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label className="text-blue-700 font-medium">Forecast Units</Label>
+                    <Input 
+                      type="number" 
+                      value={forecastUnits} 
+                      onChange={(e) => setForecastUnits(Number(e.target.value) || 0)}
+                      className="bg-white/50 border-blue-200 focus:border-blue-400"
+                    />
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label className="text-blue-700 font-medium">List Price (₹)</Label>
-                  <Input 
-                    type="number" 
-                    value={listPrice} 
-                    onChange={(e) => setListPrice(Number(e.target.value) || 0)}
-                    className="bg-white/50 border-blue-200 focus:border-blue-400"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label className="text-blue-700 font-medium">List Price / MRP (₹)</Label>
+                    <Input 
+                      type="number" 
+                      value={listPrice} 
+                      onChange={(e) => setListPrice(Number(e.target.value) || 0)}
+                      className="bg-white/50 border-blue-200 focus:border-blue-400"
+                    />
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label className="text-blue-700 font-medium">Target Margin (%)</Label>
-                  <Input 
-                    type="number" 
-                    value={Math.round(targetMargin * 100)} 
-                    onChange={(e) => setTargetMargin(Number(e.target.value) / 100)}
-                    className="bg-white/50 border-blue-200 focus:border-blue-400"
-                  />
+                  <div className="space-y-2">
+                    <Label className="text-blue-700 font-medium">Target Margin (%)</Label>
+                    <Input 
+                      type="number" 
+                      value={Math.round(targetMargin * 100)} 
+                      onChange={(e) => setTargetMargin(Number(e.target.value) / 100)}
+                      className="bg-white/50 border-blue-200 focus:border-blue-400"
+                    />
+                  </div>
+
+                  <div className="space-y-2 col-span-2">
+                    <Label className="text-blue-700 font-medium">Sales Channel</Label>
+                    <Select value={salesChannel} onValueChange={(v) => setSalesChannel(v as SalesChannel)}>
+                      <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(SALES_CHANNELS).map(([id, { label }]) => (
+                          <SelectItem key={id} value={id}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2 col-span-2">
+                    <Label className="text-blue-700 font-medium">Inventory Valuation</Label>
+                    <Select value={valuationMethod} onValueChange={(v) => setValuationMethod(v as ValuationMethod)}>
+                      <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(VALUATION_METHODS).map(([id, label]) => (
+                          <SelectItem key={id} value={id}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
 
-              <h4 className="text-lg font-medium text-purple-700 mt-6 mb-3 flex items-center">
-                ⚙️ Overheads
-              </h4>
-              <div className="grid grid-cols-2 gap-3">
-                <InputField 
-                  label="Labor % of DM" 
-                  value={Math.round(laborPct * 100)}
-                  onChange={(v) => setLaborPct(v / 100)}
-                />
-                <InputField 
-                  label="Energy % of DM" 
-                  value={Math.round(energyPct * 100)}
-                  onChange={(v) => setEnergyPct(v / 100)}
-                />
-                <InputField 
-                  label="Freight / Unit (₹)" 
-                  value={freight}
-                  onChange={setFreight}
-                />
-                <InputField 
-                  label="Warranty % of SP" 
-                  value={Math.round(warrantyPct * 100)}
-                  onChange={(v) => setWarrantyPct(v / 100)}
-                />
-              </div>
-            </GlassCard>
+                <h4 className="text-lg font-medium text-purple-700 mt-6 mb-3 flex items-center">
+                  ⚙️ Overheads
+                </h4>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1 col-span-2">
+                    <Label className="text-sm text-blue-700">Labour & Energy Model</Label>
+                    <Select value={overheadModel} onValueChange={(v) => setOverheadModel(v as OverheadModel)}>
+                      <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(OVERHEAD_MODELS).map(([id, label]) => (
+                          <SelectItem key={id} value={id}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {overheadModel === 'percent' ? (
+                    <>
+                      <InputField 
+                        label="Labor % of DM" 
+                        value={Math.round(laborPct * 100)}
+                        onChange={(v) => setLaborPct(v / 100)}
+                      />
+                      <InputField 
+                        label="Energy % of DM" 
+                        value={Math.round(energyPct * 100)}
+                        onChange={(v) => setEnergyPct(v / 100)}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <InputField 
+                        label={`Labour ₹/hour (${PRODUCTS[sku].plant})`} 
+                        value={plants[PRODUCTS[sku].plant]?.labourRatePerHour ?? 0}
+                        onChange={(v) => updatePlant(PRODUCTS[sku].plant, { labourRatePerHour: Math.max(0, v) })}
+                      />
+                      <InputField 
+                        label={`Power ₹/kWh (${PRODUCTS[sku].plant})`} 
+                        value={plants[PRODUCTS[sku].plant]?.powerTariff ?? 0}
+                        onChange={(v) => updatePlant(PRODUCTS[sku].plant, { powerTariff: Math.max(0, v) })}
+                      />
+                      <div className="col-span-2">
+                        <RoutingEditor
+                          routing={routings[sku]}
+                          onChange={(routing) => setRoutings(prev => ({ ...prev, [sku]: routing }))}
+                        />
+                      </div>
+                    </>
+                  )}
+                  <InputField 
+                    label="Freight / Unit (₹)" 
+                    value={freight}
+                    onChange={setFreight}
+                  />
+                  <InputField 
+                    label="Warranty % of SP" 
+                    value={Math.round(warrantyPct * 100)}
+                    onChange={(v) => setWarrantyPct(v / 100)}
+                  />
+                </div>
+              </GlassCard>
 
-            {/* Materials Editor */}
-            <GlassCard>
-              <h3 className="text-xl font-semibold text-blue-800 mb-4 flex items-center">
-                📦 Materials & Inventory
-              </h3>
+              {/* Materials Editor */}
+              <GlassCard>
+                <h3 className="text-xl font-semibold text-blue-800 mb-4 flex items-center">
+                  📦 Materials & Inventory
+                </h3>
+                <div className="text-xs text-purple-600 -mt-2 mb-3">
+                  BOM quantities shown for {sku} – {PRODUCTS[sku].name}
+                </div>
               
-              <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
-                {materials.map((material, index) => (
-                  <MaterialRow 
-                    key={material.id}
-                    material={material}
-                    avgCost={result.procurementPlan.find(p => p.id === material.id)?.avgCost || 0}
-                    onUpdate={(field, value) => updateMaterial(index, field, value)}
-                  />
-                ))}
-              </div>
-            </GlassCard>
-          </div>
+                <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
+                  {materials.map((material, index) => (
+                    <MaterialRow 
+                      key={material.id}
+                      material={material}
+                      avgCost={result.procurementPlan.find(p => p.id === material.id)?.avgCost || 0}
+                      sourcedPrice={result.procurementPlan.find(p => p.id === material.id)?.sourcing?.avgPrice}
+                      bomQty={bom[sku].find(l => l.materialId === material.id)?.qty ?? 0}
+                      onUpdate={(field, value) => updateMaterial(index, field, value)}
+                      onBomQtyUpdate={(qty) => updateBomQty(material, qty)}
+                    />
+                  ))}
+                </div>
+              </GlassCard>
 
-          {/* RIGHT: Results - Takes 3 columns */}
-          <div className="xl:col-span-3">
-            <GlassCard>
-              <Tabs defaultValue="hedging" className="w-full">
-                <TabsList className="grid w-full grid-cols-5 bg-white/30 mb-6">
-                  <TabsTrigger value="hedging" className="data-[state=active]:bg-blue-500 data-[state=active]:text-white text-xs">
-                    ⚖️ Hedging
-                  </TabsTrigger>
-                  <TabsTrigger value="breakdown" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white text-xs">
-                    📊 Breakdown
-                  </TabsTrigger>
-                  <TabsTrigger value="analysis" className="data-[state=active]:bg-green-500 data-[state=active]:text-white text-xs">
-                    📈 Analysis
-                  </TabsTrigger>
-                  <TabsTrigger value="charts" className="data-[state=active]:bg-orange-500 data-[state=active]:text-white text-xs">
-                    📊 Charts
-                  </TabsTrigger>
-                  <TabsTrigger value="scenarios" className="data-[state=active]:bg-pink-500 data-[state=active]:text-white text-xs">
-                    🔄 Scenarios
-                  </TabsTrigger>
-                </TabsList>
-
-                <TabsContent value="hedging" className="space-y-6">
-                  <CopperHedgingComponent 
-                    copperPredictions={copperPredictions}
-                    setCopperPredictions={setCopperPredictions}
-                    hedgingStrategy={hedgingStrategy}
-                    setHedgingStrategy={setHedgingStrategy}
-                    isLoadingPredictions={isLoadingPredictions}
-                    setIsLoadingPredictions={setIsLoadingPredictions}
-                    currentCopperPrice={materials.find(m => m.id === 'M_COPPER')?.newPrice || 880}
-                    copperAvgCost={result.procurementPlan.find(p => p.id === 'M_COPPER')?.avgCost || 880}
-                    copperBomQty={materials.find(m => m.id === 'M_COPPER')?.bomQty || 2.5}
-                    totalCost={result.totalCost}
-                    listPrice={result.listPrice}
-                    forecastUnits={forecastUnits}
+              {/* Currency & FX */}
+              <GlassCard>
+                <h3 className="text-xl font-semibold text-blue-800 mb-4 flex items-center">
+                  💱 Currency & FX
+                </h3>
+                <div className="grid grid-cols-2 gap-3">
+                  {(Object.keys(CURRENCIES) as Currency[]).filter(c => c !== 'INR').map(currency => (
+                    <InputField
+                      key={currency}
+                      label={`INR per ${currency}`}
+                      value={fx.rates[currency]}
+                      onChange={(v) => setFx(prev => ({ ...prev, rates: { ...prev.rates, [currency]: Math.max(0, v) } }))}
+                    />
+                  ))}
+                  <InputField
+                    label="FX Shock: INR Depreciation (%)"
+                    value={Math.round(fx.shockPct * 1000) / 10}
+                    onChange={(v) => setFx(prev => ({ ...prev, shockPct: Math.max(-99, v) / 100 }))}
                   />
-                </TabsContent>
-
-                <TabsContent value="breakdown" className="space-y-4">
-                  <h3 className="text-xl font-semibold text-purple-800">Cost Breakdown</h3>
-                  <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                    <div className="grid grid-cols-2 gap-4">
-                      <CostItem label="Direct Material" value={rupees(result.directMaterialCost)} color="blue" />
-                      <CostItem label="Labor" value={rupees(result.labor)} color="green" />
-                      <CostItem label="Energy" value={rupees(result.energy)} color="yellow" />
-                      <CostItem label="Freight" value={rupees(result.freight)} color="purple" />
-                      <CostItem label="Warranty" value={rupees(result.warranty)} color="pink" />
-                      <CostItem label="Total Unit Cost" value={rupees(result.totalCost)} color="indigo" large />
-                    </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm text-blue-700">Display Currency</Label>
+                    <Select value={reportCurrency} onValueChange={(v) => setReportCurrency(v as Currency)}>
+                      <SelectTrigger className="bg-white/50 border-blue-200 focus:border-blue-400 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CURRENCIES).map(([code, { label }]) => (
+                          <SelectItem key={code} value={code}>{code} – {label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                </TabsContent>
+                </div>
+                <div className="mt-4 p-3 bg-blue-50 rounded-lg text-sm text-blue-800">
+                  {fx.shockPct === 0
+                    ? 'Set an FX shock to see how rupee depreciation moves the unit cost of imported materials.'
+                    : <>FX shock of {(fx.shockPct * 100).toFixed(1)}% moves unit cost by <strong>{fxShockImpact >= 0 ? '+' : ''}{rupees(fxShockImpact)}</strong> ({result.totalCost - fxShockImpact > 0 ? ((fxShockImpact / (result.totalCost - fxShockImpact)) * 100).toFixed(2) : '0.00'}%).</>}
+                </div>
+              </GlassCard>
+
+              {/* Material Substitution */}
+              <GlassCard>
+                <h3 className="text-xl font-semibold text-blue-800 mb-4 flex items-center">
+                  🔁 Material Substitution
+                </h3>
+                <div className="space-y-4">
+                  {substitutions.map(rule => (
+                    <SubstitutionPanel
+                      key={rule.id}
+                      rule={rule}
+                      materials={materials}
+                      result={result}
+                      baselineResult={baselineResult}
+                      onUpdate={(field, value) => updateSubstitution(rule.id, field, value)}
+                    />
+                  ))}
+                </div>
+              </GlassCard>
+            </div>
+
+            {/* RIGHT: Results - Takes 3 columns */}
+            <div className="xl:col-span-3">
+              <GlassCard>
+                <Tabs defaultValue="hedging" className="w-full">
+                  <TabsList className="grid w-full grid-cols-5 h-auto gap-1 bg-white/30 mb-6">
+                    <TabsTrigger value="hedging" className="data-[state=active]:bg-blue-500 data-[state=active]:text-white text-xs">
+                      ⚖️ Hedging
+                    </TabsTrigger>
+                    <TabsTrigger value="breakdown" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white text-xs">
+                      📊 Breakdown
+                    </TabsTrigger>
+                    <TabsTrigger value="analysis" className="data-[state=active]:bg-green-500 data-[state=active]:text-white text-xs">
+                      📈 Analysis
+                    </TabsTrigger>
+                    <TabsTrigger value="charts" className="data-[state=active]:bg-orange-500 data-[state=active]:text-white text-xs">
+                      📊 Charts
+                    </TabsTrigger>
+                    <TabsTrigger value="scenarios" className="data-[state=active]:bg-pink-500 data-[state=active]:text-white text-xs">
+                      🔄 Scenarios
+                    </TabsTrigger>
+                    <TabsTrigger value="portfolio" className="data-[state=active]:bg-teal-500 data-[state=active]:text-white text-xs">
+                      🏭 Portfolio
+                    </TabsTrigger>
+                    <TabsTrigger value="mrp" className="data-[state=active]:bg-cyan-500 data-[state=active]:text-white text-xs">
+                      📅 MRP
+                    </TabsTrigger>
+                    <TabsTrigger value="data" className="data-[state=active]:bg-indigo-500 data-[state=active]:text-white text-xs">
+                      📥 Data
+                    </TabsTrigger>
+                    <TabsTrigger value="montecarlo" className="data-[state=active]:bg-rose-500 data-[state=active]:text-white text-xs">
+                      🎲 Monte Carlo
+                    </TabsTrigger>
+                    <TabsTrigger value="sensitivity" className="data-[state=active]:bg-amber-500 data-[state=active]:text-white text-xs">
+                      🌪️ Sensitivity
+                    </TabsTrigger>
+                  </TabsList>
 
-                <TabsContent value="analysis" className="space-y-4">
-                  <h3 className="text-xl font-semibold text-green-800">Profitability Analysis</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <TabsContent value="hedging" className="space-y-6">
+                    <CommodityHedgingComponent
+                      materials={inrMaterials}
+                      procurementPlan={unhedgedResult.procurementPlan}
+                      histories={hedgeHistories}
+                      hedges={hedges}
+                      setHedges={setHedges}
+                      predictions={hedgePredictions}
+                      setPredictions={setHedgePredictions}
+                      summary={hedgeSummary}
+                      listPrice={result.netRealisation}
+                      bookCover={bookCover}
+                    />
+                    <HedgeBookComponent
+                      positions={hedgeBook}
+                      setPositions={setHedgeBook}
+                      materials={inrMaterials}
+                      procurementPlan={result.procurementPlan}
+                      asOf={today}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="breakdown" className="space-y-4">
+                    <h3 className="text-xl font-semibold text-purple-800">Cost Breakdown</h3>
                     <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                      <h4 className="font-semibold text-gray-800 mb-4">Current Scenario</h4>
-                      <div className="space-y-3">
-                        <div className="flex justify-between">
-                          <span>List Price:</span>
-                          <span className="font-semibold">{rupees(result.listPrice)}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Total Cost:</span>
-                          <span className="font-semibold">{rupees(result.totalCost)}</span>
-                        </div>
-                        <div className="flex justify-between border-t pt-2">
-                          <span>Margin:</span>
-                          <span className="font-bold text-lg">{rupees(result.marginInr)} ({(result.marginPct * 100).toFixed(1)}%)</span>
-                        </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <CostItem label="Direct Material" value={rupees(result.directMaterialCost)} color="blue" />
+                        {(result.scrapLoss > 0 || result.scrapCredit > 0) && (
+                          <>
+                            <CostItem label="Scrap Loss" value={rupees(result.scrapLoss)} color="blue" />
+                            <CostItem label="Scrap Credit" value={`−${rupees(result.scrapCredit)}`} color="green" />
+                          </>
+                        )}
+                        {result.valuationMethod === 'standard' && (
+                          <CostItem label="Purchase Price Variance" value={rupees(result.purchasePriceVariance)} color="blue" />
+                        )}
+                        <CostItem label="Labor" value={rupees(result.labor)} color="green" />
+                        <CostItem label="Energy" value={rupees(result.energy)} color="yellow" />
+                        <CostItem label="Outbound Freight" value={rupees(result.freight)} color="purple" />
+                        <CostItem label="Warranty" value={rupees(result.warranty)} color="pink" />
+                        <CostItem label="Fixed Cost Absorption" value={rupees(result.fixedCost)} color="indigo" />
+                        <CostItem label="Total Unit Cost" value={rupees(result.totalCost)} color="indigo" large />
                       </div>
                     </div>
-                    
-                    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                      <h4 className="font-semibold text-gray-800 mb-4">Recommendation</h4>
-                      <div className="space-y-3">
-                        <div className="flex justify-between">
-                          <span>Target Margin:</span>
-                          <span className="font-semibold">{(result.targetMargin * 100).toFixed(1)}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Recommended SP:</span>
-                          <span className="font-bold text-xl text-green-600">{rupees(result.recommendedSP)}</span>
+                    <OverheadDriversComponent result={result} laborPct={laborPct} energyPct={energyPct} activity={effectiveCostInputs.activity} />
+                    <SupplierSourcingComponent
+                      suppliers={suppliers}
+                      setSuppliers={setSuppliers}
+                      materials={materials}
+                      procurementPlan={result.procurementPlan}
+                    />
+                    <LandedCostComponent
+                      materials={inrMaterials}
+                      procurementPlan={result.procurementPlan}
+                      onUpdate={updateLandedTerms}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="analysis" className="space-y-4">
+                    <h3 className="text-xl font-semibold text-green-800">Profitability Analysis</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+                        <h4 className="font-semibold text-gray-800 mb-4">Current Scenario</h4>
+                        <div className="space-y-3">
+                          <div className="flex justify-between">
+                            <span>List Price / MRP:</span>
+                            <span className="font-semibold">{rupees(result.listPrice)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Net Realisation ({SALES_CHANNELS[salesChannel].label}):</span>
+                            <span className="font-semibold">{rupees(result.netRealisation)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Total Cost:</span>
+                            <span className="font-semibold">{rupees(result.totalCost)}</span>
+                          </div>
+                          <div className="flex justify-between border-t pt-2">
+                            <span>Margin:</span>
+                            <span className="font-bold text-lg">{rupees(result.marginInr)} ({(result.marginPct * 100).toFixed(1)}%)</span>
+                          </div>
                         </div>
-                        <div className="text-sm text-gray-600 mt-4">
-                          {result.listPrice < result.recommendedSP ? 
-                            "💡 Consider increasing the selling price to achieve target margin." :
-                            "✅ Current price meets target margin requirements."
-                          }
+                      </div>
+                    
+                      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+                        <h4 className="font-semibold text-gray-800 mb-4">Recommendation</h4>
+                        <div className="space-y-3">
+                          <div className="flex justify-between">
+                            <span>Target Margin:</span>
+                            <span className="font-semibold">{(result.targetMargin * 100).toFixed(1)}%</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Recommended SP:</span>
+                            <span className="font-bold text-xl text-green-600">{rupees(result.recommendedSP)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Profit-maximising List Price:</span>
+                            <span className="font-bold text-xl text-blue-600">{rupees(priceOptimisation.optimum.price)}</span>
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            At elasticity {demandElasticity(demandModels[sku]).toFixed(2)}: {Math.round(priceOptimisation.optimum.units).toLocaleString()} units, {(priceOptimisation.optimum.marginPct * 100).toFixed(1)}% margin
+                            {priceOptimisation.atBound && " (at the edge of the search range)"}
+                          </div>
+                          <div className="text-sm text-gray-600 mt-4">
+                            {result.netRealisation < result.recommendedSP ? 
+                              "💡 Consider increasing the selling price to achieve target margin." :
+                              "✅ Current price meets target margin requirements."
+                            }
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                </TabsContent>
 
-                <TabsContent value="charts" className="space-y-6">
-                  <h3 className="text-xl font-semibold text-orange-800">Visual Analytics</h3>
-                  
-                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                    {/* Cost Breakdown Pie Chart */}
-                    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                      <h4 className="text-lg font-semibold text-gray-800 mb-4">💰 Cost Breakdown</h4>
-                      <ResponsiveContainer width="100%" height={250}>
-                        <PieChart>
-                          <Pie
-                            data={costBreakdownData}
-                            cx="50%"
-                            cy="50%"
-                            labelLine={false}
-                            label={({name, percent}) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                            outerRadius={80}
-                            fill="#8884d8"
-                            dataKey="value"
-                          >
-                            {costBreakdownData.map((entry, index) => (
-                              <Cell key={`cell-${index}`} fill={entry.color} />
-                            ))}
-                          </Pie>
-                          <Tooltip formatter={(value) => [rupees(Number(value)), '']} />
-                        </PieChart>
-                      </ResponsiveContainer>
-                    </div>
+                    <PriceWaterfallComponent
+                      costInputs={effectiveCostInputs}
+                      salesChannel={salesChannel}
+                      waterfalls={channelWaterfalls}
+                      setWaterfalls={setChannelWaterfalls}
+                    />
 
-                    {/* Material Costs Bar Chart */}
-                    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                      <h4 className="text-lg font-semibold text-gray-800 mb-4">🔧 Material Costs per Unit</h4>
-                      <ResponsiveContainer width="100%" height={250}>
-                        <BarChart data={materialCostData}>
-                          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
-                          <XAxis dataKey="name" fontSize={12} />
-                          <YAxis fontSize={12} />
-                          <Tooltip 
-                            formatter={(value) => [rupees(Number(value)), 'Cost per Unit']}
-                            labelFormatter={(label) => `Material: ${label}`}
-                          />
-                          <Bar dataKey="cost" fill="#3B82F6" radius={[4, 4, 0, 0]} />
-                        </BarChart>
-                      </ResponsiveContainer>
-                    </div>
+                    <PriceOptimisationComponent
+                      optimisation={priceOptimisation}
+                      model={demandModels[sku]}
+                      setModel={(model) => setDemandModels(prev => ({ ...prev, [sku]: model }))}
+                    />
+
+                    <BreakEvenComponent
+                      costInputs={effectiveCostInputs}
+                      result={result}
+                      pools={fixedCostPools}
+                      setPools={setFixedCostPools}
+                    />
 
-                    {/* Procurement Spend Chart */}
+                    {/* Valuation method comparison */}
                     <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                      <h4 className="text-lg font-semibold text-gray-800 mb-4">🛒 Procurement Spend</h4>
-                      <ResponsiveContainer width="100%" height={250}>
-                        <BarChart data={procurementSpendData}>
+                      <h4 className="font-semibold text-gray-800 mb-4">🧮 Margin by Valuation Method</h4>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                            <tr>
+                              <th className="py-3 px-2 text-left">Method</th>
+                              <th className="py-3 px-2 text-right">Direct Material</th>
+                              <th className="py-3 px-2 text-right">PPV</th>
+                              <th className="py-3 px-2 text-right">Total Cost</th>
+                              <th className="py-3 px-2 text-right">Margin %</th>
+                              <th className="py-3 px-2 text-right">Recommended SP</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {valuationComparison.map(({ method, result: r }) => (
+                              <tr key={method} className={`border-b border-blue-100 hover:bg-blue-50/50 ${method === valuationMethod ? 'font-semibold' : ''}`}>
+                                <td className="py-3 px-2">{VALUATION_METHODS[method]}</td>
+                                <td className="py-3 px-2 text-right">{rupees(r.directMaterialCost)}</td>
+                                <td className="py-3 px-2 text-right">{rupees(r.purchasePriceVariance)}</td>
+                                <td className="py-3 px-2 text-right">{rupees(r.totalCost)}</td>
+                                <td className="py-3 px-2 text-right">{(r.marginPct * 100).toFixed(1)}%</td>
+                                <td className="py-3 px-2 text-right text-green-600">{rupees(r.recommendedSP)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <ResponsiveContainer width="100%" height={200}>
+                        <BarChart data={valuationComparison.map(({ method, result: r }) => ({ name: VALUATION_METHODS[method], margin: Number((r.marginPct * 100).toFixed(2)) }))}>
                           <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
                           <XAxis dataKey="name" fontSize={12} />
                           <YAxis fontSize={12} />
-                          <Tooltip 
-                            formatter={(value) => [rupees(Number(value)), 'Procurement Spend']}
-                            labelFormatter={(label) => `Material: ${label}`}
-                          />
-                          <Bar dataKey="spend" fill="#F59E0B" radius={[4, 4, 0, 0]} />
+                          <Tooltip formatter={(value) => [`${value}%`, 'Margin']} />
+                          <Bar dataKey="margin" fill="#10B981" radius={[4, 4, 0, 0]} />
                         </BarChart>
                       </ResponsiveContainer>
                     </div>
+                  </TabsContent>
 
-                    {/* Price Trends */}
-                    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                      <h4 className="text-lg font-semibold text-gray-800 mb-4">📈 Price Trends (6M)</h4>
-                      <ResponsiveContainer width="100%" height={250}>
-                        <LineChart data={priceTrendData}>
-                          <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
-                          <XAxis dataKey="month" fontSize={12} />
-                          <YAxis fontSize={12} />
-                          <Tooltip />
-                          <Legend />
-                          <Line type="monotone" dataKey="copper" stroke="#EF4444" strokeWidth={3} name="Copper (₹/kg)" />
-                          <Line type="monotone" dataKey="steel" stroke="#8B5CF6" strokeWidth={3} name="Steel (₹/kg)" />
-                          <Line type="monotone" dataKey="plastic" stroke="#10B981" strokeWidth={3} name="Plastic (₹/kg)" />
-                        </LineChart>
-                      </ResponsiveContainer>
-                    </div>
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="scenarios" className="space-y-4">
-                  <div className="flex justify-between items-center">
-                    <h3 className="text-xl font-semibold text-pink-800">🔄 Scenario Comparison</h3>
-                    <div className="space-x-2">
-                      <Button 
-                        onClick={addScenario}
-                        className="bg-pink-500 hover:bg-pink-600 text-white"
-                      >
-                        ➕ Add Current Scenario
-                      </Button>
-                      <Button 
-                        onClick={clearScenarios}
-                        variant="outline"
-                        className="border-pink-300 text-pink-700 hover:bg-pink-50"
-                      >
-                        🗑️ Clear All
-                      </Button>
-                    </div>
-                  </div>
-
-                  {scenarios.length === 0 ? (
-                    <div className="bg-white/40 backdrop-blur-sm rounded-xl p-8 text-center">
-                      <div className="text-gray-500 text-lg mb-2">📊 No scenarios saved yet</div>
-                      <div className="text-gray-400 text-sm">
-                        Adjust your parameters above and click "Add Current Scenario" to compare different configurations
+                  <TabsContent value="charts" className="space-y-6">
+                    <h3 className="text-xl font-semibold text-orange-800">Visual Analytics</h3>
+                  
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      {/* Cost Breakdown Pie Chart */}
+                      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+                        <h4 className="text-lg font-semibold text-gray-800 mb-4">💰 Cost Breakdown</h4>
+                        <ResponsiveContainer width="100%" height={250}>
+                          <PieChart>
+                            <Pie
+                              data={costBreakdownData}
+                              cx="50%"
+                              cy="50%"
+                              labelLine={false}
+                              label={({name, percent}) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                              outerRadius={80}
+                              fill="#8884d8"
+                              dataKey="value"
+                            >
+                              {costBreakdownData.map((entry, index) => (
+                                <Cell key={`cell-${index}`} fill={entry.color} />
+                              ))}
+                            </Pie>
+                            <Tooltip formatter={(value) => [rupees(Number(value)), '']} />
+                          </PieChart>
+                        </ResponsiveContainer>
                       </div>
-                    </div>
-                  ) : (
-                    <div className="space-y-6">
-                      {/* Scenario Comparison Chart */}
+
+                      {/* Material Costs Bar Chart */}
                       <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                        <h4 className="text-lg font-semibold text-gray-800 mb-4">💹 Cost & Margin Comparison</h4>
-                        <ResponsiveContainer width="100%" height={300}>
-                          <BarChart data={scenarioComparisonData}>
+                        <h4 className="text-lg font-semibold text-gray-800 mb-4">🔧 Material Costs per Unit</h4>
+                        <ResponsiveContainer width="100%" height={250}>
+                          <BarChart data={materialCostData}>
                             <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
                             <XAxis dataKey="name" fontSize={12} />
-                            <YAxis yAxisId="cost" orientation="left" fontSize={12} />
-                            <YAxis yAxisId="margin" orientation="right" fontSize={12} />
-                            <Tooltip />
-                            <Legend />
-                            <Bar yAxisId="cost" dataKey="totalCost" fill="#3B82F6" name="Total Cost (₹)" />
-                            <Bar yAxisId="cost" dataKey="directMaterial" fill="#10B981" name="Direct Material (₹)" />
-                            <Line yAxisId="margin" type="monotone" dataKey="margin" stroke="#EF4444" strokeWidth={3} name="Margin %" />
+                            <YAxis fontSize={12} />
+                            <Tooltip 
+                              formatter={(value) => [rupees(Number(value)), 'Cost per Unit']}
+                              labelFormatter={(label) => `Material: ${label}`}
+                            />
+                            <Bar dataKey="cost" fill="#3B82F6" radius={[4, 4, 0, 0]} />
                           </BarChart>
                         </ResponsiveContainer>
                       </div>
 
-                      {/* Scenario Summary Table */}
+                      {/* Procurement Spend Chart */}
                       <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
-                        <h4 className="text-lg font-semibold text-gray-800 mb-4">📋 Scenario Summary</h4>
-                        <div className="overflow-x-auto">
-                          <table className="w-full text-sm">
-                            <thead className="text-blue-700 font-semibold border-b border-blue-200">
-                              <tr>
-                                <th className="py-3 px-2 text-left">Scenario</th>
-                                <th className="py-3 px-2 text-right">Total Cost</th>
-                                <th className="py-3 px-2 text-right">Direct Material</th>
-                                <th className="py-3 px-2 text-right">Margin %</th>
-                                <th className="py-3 px-2 text-right">Recommended SP</th>
-                              </tr>
-                            </thead>
-                            <tbody>
-                              {scenarios.map((scenario, index) => (
-                                <tr key={index} className="border-b border-blue-100 hover:bg-blue-50/50">
-                                  <td className="py-3 px-2 font-medium">{scenario.name}</td>
-                                  <td className="py-3 px-2 text-right">{rupees(scenario.result.totalCost)}</td>
-                                  <td className="py-3 px-2 text-right">{rupees(scenario.result.directMaterialCost)}</td>
-                                  <td className="py-3 px-2 text-right">{(scenario.result.marginPct * 100).toFixed(1)}%</td>
-                                  <td className="py-3 px-2 text-right font-semibold text-green-600">{rupees(scenario.result.recommendedSP)}</td>
+                        <h4 className="text-lg font-semibold text-gray-800 mb-4">🛒 Procurement Spend</h4>
+                        <ResponsiveContainer width="100%" height={250}>
+                          <BarChart data={procurementSpendData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                            <XAxis dataKey="name" fontSize={12} />
+                            <YAxis fontSize={12} />
+                            <Tooltip 
+                              formatter={(value) => [rupees(Number(value)), 'Procurement Spend']}
+                              labelFormatter={(label) => `Material: ${label}`}
+                            />
+                            <Bar dataKey="spend" fill="#F59E0B" radius={[4, 4, 0, 0]} />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+
+                      {/* Price Trends */}
+                      <PriceTrendComponent
+                        priceHistory={priceHistory}
+                        setPriceHistory={setPriceHistory}
+                        materials={materials}
+                        onApplyBaseline={applyHistoryBaseline}
+                      />
+                    </div>
+                  </TabsContent>
+
+                  <TabsContent value="scenarios" className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <h3 className="text-xl font-semibold text-pink-800">🔄 Scenario Comparison</h3>
+                      <div className="flex items-center space-x-2">
+                        <Input
+                          placeholder={`Scenario ${scenarios.length + 1}`}
+                          value={scenarioName}
+                          onChange={(e) => setScenarioName(e.target.value)}
+                          className="w-48 bg-white/50 border-pink-200 focus:border-pink-400"
+                        />
+                        <Button 
+                          onClick={addScenario}
+                          className="bg-pink-500 hover:bg-pink-600 text-white"
+                        >
+                          ➕ Add Current Scenario
+                        </Button>
+                        <Button 
+                          onClick={clearScenarios}
+                          variant="outline"
+                          className="border-pink-300 text-pink-700 hover:bg-pink-50"
+                        >
+                          🗑️ Clear All
+                        </Button>
+                      </div>
+                    </div>
+
+                    {scenarios.length === 0 ? (
+                      <div className="bg-white/40 backdrop-blur-sm rounded-xl p-8 text-center">
+                        <div className="text-gray-500 text-lg mb-2">📊 No scenarios saved yet</div>
+                        <div className="text-gray-400 text-sm">
+                          Adjust your parameters above and click "Add Current Scenario" to compare different configurations
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="space-y-6">
+                        {/* Scenario Comparison Chart */}
+                        <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+                          <h4 className="text-lg font-semibold text-gray-800 mb-4">💹 Cost & Margin Comparison</h4>
+                          <ResponsiveContainer width="100%" height={300}>
+                            <BarChart data={scenarioComparisonData}>
+                              <CartesianGrid strokeDasharray="3 3" stroke="#e0e7ff" />
+                              <XAxis dataKey="name" fontSize={12} />
+                              <YAxis yAxisId="cost" orientation="left" fontSize={12} tickFormatter={(v) => rupees(Number(v))} width={80} />
+                              <YAxis yAxisId="margin" orientation="right" fontSize={12} />
+                              <Tooltip formatter={(value, name) => [name === 'Margin %' ? `${Number(value).toFixed(1)}%` : rupees(Number(value)), name]} />
+                              <Legend />
+                              <Bar yAxisId="cost" dataKey="totalCost" fill="#3B82F6" name="Total Cost" />
+                              <Bar yAxisId="cost" dataKey="directMaterial" fill="#10B981" name="Direct Material" />
+                              <Line yAxisId="margin" type="monotone" dataKey="margin" stroke="#EF4444" strokeWidth={3} name="Margin %" />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+
+                        {/* Scenario Summary Table */}
+                        <div className="bg-white/40 backdrop-blur-sm rounded-xl p-6">
+                          <h4 className="text-lg font-semibold text-gray-800 mb-4">📋 Scenario Summary</h4>
+                          <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                              <thead className="text-blue-700 font-semibold border-b border-blue-200">
+                                <tr>
+                                  <th className="py-3 px-2 text-left">Scenario</th>
+                                  <th className="py-3 px-2 text-right">Total Cost</th>
+                                  <th className="py-3 px-2 text-right">Direct Material</th>
+                                  <th className="py-3 px-2 text-right">Margin %</th>
+                                  <th className="py-3 px-2 text-right">Recommended SP</th>
+                                  <th className="py-3 px-2 text-right">Actions</th>
                                 </tr>
-                              ))}
-                            </tbody>
-                          </table>
+                              </thead>
+                              <tbody>
+                                {scenarioResults.map(({ scenario, result: r }) => (
+                                  <tr key={scenario.id} className="border-b border-blue-100 hover:bg-blue-50/50">
+                                    <td className="py-3 px-2 font-medium">
+                                      <Input
+                                        value={scenario.name}
+                                        onChange={(e) => renameScenario(scenario.id, e.target.value)}
+                                        className="h-8 bg-white/50 border-pink-200 focus:border-pink-400 text-sm"
+                                      />
+                                      <div className="text-xs text-gray-500 mt-1">
+                                        {scenario.inputs.sku} · {new Date(scenario.savedAt).toLocaleString('en-IN')}
+                                      </div>
+                                    </td>
+                                    <td className="py-3 px-2 text-right">{rupees(r.totalCost)}</td>
+                                    <td className="py-3 px-2 text-right">{rupees(r.directMaterialCost)}</td>
+                                    <td className="py-3 px-2 text-right">{(r.marginPct * 100).toFixed(1)}%</td>
+                                    <td className="py-3 px-2 text-right font-semibold text-green-600">{rupees(r.recommendedSP)}</td>
+                                    <td className="py-3 px-2 text-right whitespace-nowrap">
+                                      <Button variant="ghost" size="sm" onClick={() => loadScenario(scenario)} title="Load into editor">📂</Button>
+                                      <Button variant="ghost" size="sm" onClick={() => duplicateScenario(scenario)} title="Duplicate">📄</Button>
+                                      <Button variant="ghost" size="sm" onClick={() => deleteScenario(scenario.id)} title="Delete">🗑️</Button>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
                         </div>
+
+                        {scenarioResults.length >= 2 && (
+                          <ScenarioDiffComponent scenarioResults={scenarioResults} />
+                        )}
                       </div>
-                    </div>
-                  )}
-                </TabsContent>
-              </Tabs>
-            </GlassCard>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="portfolio" className="space-y-6">
+                    <PortfolioComponent
+                      forecasts={portfolioForecasts}
+                      setForecasts={setPortfolioForecasts}
+                      allocationRule={allocationRule}
+                      setAllocationRule={setAllocationRule}
+                      priority={skuPriority}
+                      onMovePriority={moveSkuPriority}
+                      portfolio={portfolio}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="mrp" className="space-y-6">
+                    <MrpComponent
+                      monthlyDemand={monthlyDemand}
+                      setMonthlyDemand={setMonthlyDemand}
+                      forecastUnits={forecastUnits}
+                      mrp={mrp}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="data" className="space-y-6">
+                    <ImportExportComponent
+                      sku={sku}
+                      materials={materials}
+                      bomLines={bom[sku]}
+                      procurementPlan={result.procurementPlan}
+                      fx={fx}
+                      onApply={applyImport}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="montecarlo" className="space-y-6">
+                    <MonteCarloComponent costInputs={effectiveCostInputs} />
+                  </TabsContent>
+
+                  <TabsContent value="sensitivity" className="space-y-6">
+                    <SensitivityComponent costInputs={effectiveCostInputs} />
+                    <GoalSeekComponent costInputs={effectiveCostInputs} />
+                  </TabsContent>
+                </Tabs>
+              </GlassCard>
+            </div>
           </div>
         </div>
       </div>
-    </div>
+    </MoneyContext.Provider>
   );
 }
 
@@ -946,18 +3964,37 @@ function InputField({ label, value, onChange }: { label: string; value: number;
 function MaterialRow({ 
   material, 
   avgCost, 
-  onUpdate 
+  sourcedPrice,
+  bomQty,
+  onUpdate,
+  onBomQtyUpdate
 }: { 
   material: Material; 
   avgCost: number; 
-  onUpdate: (field: keyof Material, value: number) => void;
+  sourcedPrice?: number;  // ₹/UOM paid across supplier orders, when the material has suppliers
+  bomQty: number;
+  onUpdate: (field: keyof Material, value: Material[keyof Material]) => void;
+  onBomQtyUpdate: (value: number) => void;
 }) {
+  const rupees = useMoneyFormatter();
   return (
     <div className="bg-white/50 rounded-lg p-3 border border-blue-100">
-      <div className="text-sm font-semibold text-blue-800 mb-2">{material.name}</div>
+      <div className="flex justify-between items-center mb-2">
+        <div className="text-sm font-semibold text-blue-800">{material.name}</div>
+        <Select value={material.currency} onValueChange={(v) => onUpdate('currency', v as Currency)}>
+          <SelectTrigger className="w-24 h-7 bg-white/50 border-blue-200 focus:border-blue-400 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.keys(CURRENCIES).map(code => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <div className="grid grid-cols-3 gap-2">
         <InputField 
-          label="New Price" 
+          label={`New Price (${material.currency})`} 
           value={material.newPrice}
           onChange={(v) => onUpdate('newPrice', v)}
         />
@@ -968,12 +4005,156 @@ function MaterialRow({
         />
         <InputField 
           label="BOM Qty" 
-          value={material.bomQty}
-          onChange={(v) => onUpdate('bomQty', v)}
+          value={bomQty}
+          onChange={onBomQtyUpdate}
+        />
+        <InputField 
+          label="Lead Time (M)" 
+          value={material.leadTimeMonths}
+          onChange={(v) => onUpdate('leadTimeMonths', v)}
+        />
+        <InputField 
+          label="Safety Stock" 
+          value={material.safetyStock}
+          onChange={(v) => onUpdate('safetyStock', v)}
+        />
+        <InputField 
+          label="Std Cost (INR)" 
+          value={material.stdCost}
+          onChange={(v) => onUpdate('stdCost', v)}
+        />
+        <InputField 
+          label="Scrap Loss (%)" 
+          value={Math.round((material.scrap?.lossPct ?? 0) * 1000) / 10}
+          onChange={(v) => onUpdate('scrap', { ...(material.scrap ?? NO_SCRAP), lossPct: Math.min(Math.max(v, 0), 95) / 100 })}
+        />
+        <InputField 
+          label="Scrap Recovery (%)" 
+          value={Math.round((material.scrap?.recoveryPct ?? 0) * 1000) / 10}
+          onChange={(v) => onUpdate('scrap', { ...(material.scrap ?? NO_SCRAP), recoveryPct: Math.min(Math.max(v, 0), 100) / 100 })}
+        />
+        <InputField 
+          label="Scrap Price (INR)" 
+          value={material.scrap?.price ?? 0}
+          onChange={(v) => onUpdate('scrap', { ...(material.scrap ?? NO_SCRAP), price: Math.max(0, v) })}
         />
       </div>
       <div className="mt-2 text-xs text-purple-600">
-        Avg Cost: <span className="font-semibold">{rupees(avgCost)}</span> | UoM: {material.uom}
+        Avg Cost: <span className="font-semibold">{rupees(avgCost)}</span>
+        {sourcedPrice !== undefined && <> | Sourced: <span className="font-semibold">{rupees(sourcedPrice)}</span></>} | UoM: {material.uom}
+      </div>
+    </div>
+  );
+}
+
+function RoutingEditor({ routing, onChange }: { routing: Operation[]; onChange: (routing: Operation[]) => void }) {
+  const updateOperation = (index: number, patch: Partial<Operation>) => {
+    onChange(routing.map((op, i) => i === index ? { ...op, ...patch } : op));
+  };
+
+  return (
+    <div className="bg-white/50 rounded-lg p-3 border border-blue-100 space-y-2">
+      <div className="text-sm font-semibold text-blue-800">Routing (per unit)</div>
+      {routing.map((op, i) => (
+        <div key={i} className="grid grid-cols-[1fr_5rem_5rem_auto] gap-2 items-center">
+          <Input
+            value={op.name}
+            onChange={(e) => updateOperation(i, { name: e.target.value })}
+            className="h-8 bg-white/50 border-blue-200 focus:border-blue-400 text-sm"
+          />
+          <Input
+            type="number"
+            value={op.stdMinutes}
+            title="Standard minutes"
+            onChange={(e) => updateOperation(i, { stdMinutes: Math.max(0, Number(e.target.value) || 0) })}
+            className="h-8 bg-white/50 border-blue-200 focus:border-blue-400 text-sm text-right"
+          />
+          <Input
+            type="number"
+            value={op.kwh}
+            title="kWh"
+            onChange={(e) => updateOperation(i, { kwh: Math.max(0, Number(e.target.value) || 0) })}
+            className="h-8 bg-white/50 border-blue-200 focus:border-blue-400 text-sm text-right"
+          />
+          <Button variant="outline" size="sm" onClick={() => onChange(routing.filter((_, j) => j !== i))}>
+            ✕
+          </Button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center text-xs text-purple-600">
+        <span>Columns: operation, std minutes, kWh</span>
+        <Button variant="outline" size="sm" onClick={() => onChange([...routing, { name: `Operation ${routing.length + 1}`, stdMinutes: 0, kwh: 0 }])}>
+          ➕ Operation
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function SubstitutionPanel({
+  rule,
+  materials,
+  result,
+  baselineResult,
+  onUpdate
+}: {
+  rule: SubstitutionRule;
+  materials: Material[];
+  result: CostResult;
+  baselineResult: CostResult;
+  onUpdate: (field: 'pct' | 'ratio', value: number) => void;
+}) {
+  const rupees = useMoneyFormatter();
+  const costDelta = result.totalCost - baselineResult.totalCost;
+  const marginDelta = (result.marginPct - baselineResult.marginPct) * 100;
+  const procurementDeltas = [rule.fromMaterialId, rule.toMaterialId].map(id => {
+    const after = result.procurementPlan.find(p => p.id === id);
+    const before = baselineResult.procurementPlan.find(p => p.id === id);
+    return {
+      id,
+      name: materials.find(m => m.id === id)?.name ?? id,
+      uom: after?.uom ?? "",
+      qtyDelta: (after?.procureQty ?? 0) - (before?.procureQty ?? 0),
+      spendDelta: (after?.spend ?? 0) - (before?.spend ?? 0),
+    };
+  });
+
+  return (
+    <div className="bg-white/50 rounded-lg p-3 border border-blue-100">
+      <div className="text-sm font-semibold text-blue-800 mb-2">{rule.label}</div>
+      <div className="grid grid-cols-2 gap-2">
+        <InputField
+          label={`Substitution % (cap ${Math.round(rule.maxPct * 100)}%)`}
+          value={Math.round(rule.pct * 100)}
+          onChange={(v) => onUpdate('pct', v / 100)}
+        />
+        <InputField
+          label="Equivalence Ratio (1 : x)"
+          value={rule.ratio}
+          onChange={(v) => onUpdate('ratio', v)}
+        />
+      </div>
+      <div className="mt-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span>Unit Cost Δ:</span>
+          <span className={`font-semibold ${costDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {costDelta > 0 ? '+' : ''}{rupees(costDelta)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>Margin Δ:</span>
+          <span className={`font-semibold ${marginDelta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {marginDelta >= 0 ? '+' : ''}{marginDelta.toFixed(2)} pts
+          </span>
+        </div>
+        {procurementDeltas.map(d => (
+          <div key={d.id} className="flex justify-between text-xs text-purple-600">
+            <span>{d.name} procurement:</span>
+            <span className="font-semibold">
+              {d.qtyDelta >= 0 ? '+' : ''}{d.qtyDelta.toLocaleString(undefined, { maximumFractionDigits: 0 })} {d.uom} ({d.spendDelta >= 0 ? '+' : ''}{rupees(d.spendDelta)})
+            </span>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { activityCosting, applySubstitutions, breakEven, computeCostsWithInventory, cvpCurve, FIXED_COST_POOLS, landedCostBuildUp, scrapGrossUp, scrapOnIssue, skuFixedCost, valuedUnitCost } from "../lib/costing";
+import { BOM, Material, MATERIALS, PLANTS, ROUTINGS, SUBSTITUTIONS } from "../lib/masterData";
+import { p100Inputs } from "./fixtures";
+
+describe("landedCostBuildUp", () => {
+  it("is the purchase price when there are no terms", () => {
+    expect(landedCostBuildUp(undefined, 500).landedPrice).toBe(500);
+  });
+
+  it("stacks duty, surcharge, charges and non-recoverable GST", () => {
+    const terms = { bcdPct: 0.1, swsPct: 0.1, gstPct: 0.18, gstRecoverable: false, clearingPerUnit: 5, inboundFreightPerUnit: 3 };
+    const b = landedCostBuildUp(terms, 1000);
+    expect(b.bcd).toBeCloseTo(100);
+    expect(b.sws).toBeCloseTo(10);
+    expect(b.gst).toBeCloseTo(1110 * 0.18);
+    expect(b.landedPrice).toBeCloseTo(1110 + 5 + 3 + 199.8);
+  });
+
+  it("credits recoverable GST back", () => {
+    const terms = { bcdPct: 0.1, swsPct: 0.1, gstPct: 0.18, gstRecoverable: true, clearingPerUnit: 5, inboundFreightPerUnit: 3 };
+    const b = landedCostBuildUp(terms, 1000);
+    expect(b.gstCredit).toBeCloseTo(b.gst);
+    expect(b.landedPrice).toBeCloseTo(1118);
+  });
+});
+
+describe("skuFixedCost", () => {
+  const volumes = { P100: 10000, P200: 6000, P300: 4000 };
+
+  it("adds the SKU's own pools to its volume share of the plant pool", () => {
+    const plantShare = 12000000 * 10000 / 20000;
+    expect(skuFixedCost(FIXED_COST_POOLS, 'P100', volumes)).toBeCloseTo(800000 + 1200000 + 1500000 + plantShare);
+  });
+
+  it("leaves the plant pool unabsorbed when the plant has no volume", () => {
+    expect(skuFixedCost(FIXED_COST_POOLS, 'P300', { P100: 0, P200: 0, P300: 0 })).toBe(2100000);
+  });
+});
+
+describe("applySubstitutions", () => {
+  const rule = SUBSTITUTIONS[0];  // copper -> aluminium, 1.6 kg per kg replaced, capped at 40%
+
+  it("moves the share off the from material and adds the to material at the ratio", () => {
+    const lines = applySubstitutions(BOM.P100, [{ ...rule, pct: 0.25 }], MATERIALS);
+    expect(lines.find(l => l.materialId === "M_COPPER")!.qty).toBeCloseTo(1.875);
+    expect(lines.find(l => l.materialId === "M_ALUM")).toEqual({ materialId: "M_ALUM", qty: 1, uom: "KG" });
+  });
+
+  it("clamps the share to the engineering cap", () => {
+    const lines = applySubstitutions(BOM.P100, [{ ...rule, pct: 0.9 }], MATERIALS);
+    expect(lines.find(l => l.materialId === "M_COPPER")!.qty).toBeCloseTo(1.5);
+    expect(lines.find(l => l.materialId === "M_ALUM")!.qty).toBeCloseTo(1.6);
+  });
+
+  it("leaves the BOM untouched at zero share", () => {
+    expect(applySubstitutions(BOM.P100, [rule], MATERIALS)).toBe(BOM.P100);
+  });
+});
+
+describe("scrapGrossUp and scrapOnIssue", () => {
+  const copper = MATERIALS.find(m => m.id === "M_COPPER")!;
+
+  it("issues enough that the product keeps its BOM quantity after process loss", () => {
+    expect(scrapGrossUp(copper)).toBeCloseTo(1 / 0.97);
+    expect(scrapGrossUp({ ...copper, scrap: undefined })).toBe(1);
+    expect(scrapGrossUp({ ...copper, scrap: { lossPct: 2, recoveryPct: 0, price: 0 } })).toBeCloseTo(20);
+  });
+
+  it("credits the recovered share of the scrap at the scrap price", () => {
+    const { scrapQty, credit } = scrapOnIssue(copper, 1000);
+    expect(scrapQty).toBeCloseTo(30);
+    expect(credit).toBeCloseTo(30 * 0.9 * 620);
+  });
+});
+
+describe("activityCosting", () => {
+  it("takes the SKU's routing and its plant's rates", () => {
+    const activity = activityCosting('P100', ROUTINGS, PLANTS);
+    expect(activity).toEqual({ routing: ROUTINGS.P100, labourRatePerHour: 280, powerTariff: 8.5 });
+  });
+
+  it("costs labour and energy from the routing instead of % of DM", () => {
+    const activity = activityCosting('P100', ROUTINGS, PLANTS);
+    const result = computeCostsWithInventory({ ...p100Inputs, activity });
+    const minutes = ROUTINGS.P100.reduce((sum, op) => sum + op.stdMinutes, 0);
+    const kwh = ROUTINGS.P100.reduce((sum, op) => sum + op.kwh, 0);
+    expect(result.overheadModel).toBe('activity');
+    expect(result.labor).toBeCloseTo(minutes / 60 * 280);
+    expect(result.energy).toBeCloseTo(kwh * 8.5);
+  });
+
+  it("charges no rates when the plant is missing", () => {
+    expect(activityCosting('P100', ROUTINGS, {})).toMatchObject({ labourRatePerHour: 0, powerTariff: 0 });
+  });
+});
+
+describe("valuation methods", () => {
+  const material: Material = {
+    id: "M_TEST", name: "Test", uom: "KG", currency: 'INR', newPrice: 20, oldCost: 10,
+    onHand: 100, leadTimeMonths: 0, safetyStock: 0, stdCost: 12,
+  };
+  const inputs = { ...p100Inputs, forecastUnits: 300, materials: [material], bom: [{ materialId: "M_TEST", qty: 1, uom: "KG" }] };
+
+  it("averages stock and every purchase, including what is left at the end, under moving average", () => {
+    expect(valuedUnitCost('movingAverage', material, 150, 300)).toBeCloseTo((100 * 10 + 300 * 20) / 400);
+  });
+
+  it("issues stock at old cost first and the rest at new price under FIFO", () => {
+    expect(valuedUnitCost('fifo', material, 150, 300)).toBeCloseTo((100 * 10 + 50 * 20) / 150);
+    expect(valuedUnitCost('fifo', material, 0, 0)).toBe(10);
+  });
+
+  it("issues at standard and books the purchase price variance", () => {
+    const result = computeCostsWithInventory({ ...inputs, valuationMethod: 'standard' });
+    const plan = result.procurementPlan[0];
+    expect(plan.avgCost).toBe(12);
+    expect(plan.ppv).toBeCloseTo(200 * (20 - 12));
+    expect(result.purchasePriceVariance).toBeCloseTo(200 * 8 / 300);
+    expect(result.directMaterialCost).toBeCloseTo(12);
+  });
+
+  it("posts no variance under the actual-cost methods", () => {
+    expect(computeCostsWithInventory({ ...inputs, valuationMethod: 'fifo' }).purchasePriceVariance).toBe(0);
+    expect(computeCostsWithInventory(inputs).purchasePriceVariance).toBe(0);
+  });
+});
+
+describe("breakEven", () => {
+  const result = computeCostsWithInventory(p100Inputs);
+
+  it("covers the fixed costs with contribution at the break-even volume", () => {
+    const be = breakEven(result, p100Inputs.forecastUnits);
+    expect(be.contribution).toBeCloseTo(result.netRealisation - result.variableCost);
+    expect(be.units * be.contribution).toBeCloseTo(p100Inputs.fixedCosts!);
+    expect(be.revenue).toBeCloseTo(be.units * result.netRealisation);
+    expect(be.marginOfSafety).toBeCloseTo((10000 - be.units) / 10000);
+  });
+
+  it("never breaks even without a positive contribution", () => {
+    const loss = computeCostsWithInventory({ ...p100Inputs, listPriceOverride: 100 });
+    expect(breakEven(loss, p100Inputs.forecastUnits).units).toBe(Infinity);
+  });
+});
+
+describe("cvpCurve", () => {
+  it("steps from zero to the maximum volume with fixed costs held", () => {
+    const curve = cvpCurve(p100Inputs, 20000, 4);
+    expect(curve.map(p => p.units)).toEqual([0, 5000, 10000, 15000, 20000]);
+    expect(curve[0]).toEqual({ units: 0, revenue: 0, totalCost: p100Inputs.fixedCosts, profit: -p100Inputs.fixedCosts! });
+    curve.forEach(p => expect(p.profit).toBeCloseTo(p.revenue - p.totalCost));
+  });
+
+  it("matches the engine at the forecast volume", () => {
+    const atForecast = cvpCurve(p100Inputs, 20000, 2)[1];
+    const result = computeCostsWithInventory(p100Inputs);
+    expect(atForecast.totalCost).toBeCloseTo(result.totalCost * 10000);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addMonthsToDate, parseDateValue } from "../lib/dates";
+
+describe("addMonthsToDate", () => {
+  it("keeps the day when the target month has it", () => {
+    expect(addMonthsToDate("2026-10-15", 3)).toBe("2027-01-15");
+  });
+
+  it("clamps the day to the end of a shorter month", () => {
+    expect(addMonthsToDate("2026-11-30", 3)).toBe("2027-02-28");
+    expect(addMonthsToDate("2027-11-30", 3)).toBe("2028-02-29");
+    expect(addMonthsToDate("2026-05-31", 1)).toBe("2026-06-30");
+  });
+});
+
+describe("parseDateValue", () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    // West of Greenwich, where a UTC-midnight parse reads back as the previous day
+    process.env.TZ = "America/New_York";
+  });
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it("keeps the calendar day of an ISO date string", () => {
+    expect(parseDateValue("2026-09-15")).toBe("2026-09-15");
+    expect(parseDateValue("2026-01-01")).toBe("2026-01-01");
+  });
+
+  it("reads a bare month as its first day", () => {
+    expect(parseDateValue("2026-09")).toBe("2026-09-01");
+  });
+
+  it("accepts Date cells and free-form dates", () => {
+    expect(parseDateValue(new Date(2026, 8, 15))).toBe("2026-09-15");
+    expect(parseDateValue("15 Sep 2026")).toBe("2026-09-15");
+  });
+
+  it("rejects empty, unreadable and overflowing dates", () => {
+    expect(parseDateValue(undefined)).toBeUndefined();
+    expect(parseDateValue("")).toBeUndefined();
+    expect(parseDateValue("not a date")).toBeUndefined();
+    expect(parseDateValue("2026-02-30")).toBeUndefined();
+  });
+});
@@ -0,0 +1,15 @@
+import { CostInputs } from "../lib/costing";
+import { BOM, MATERIALS } from "../lib/masterData";
+
+// P100 on the percent overhead model, no suppliers, hedges or channel
+export const p100Inputs: CostInputs = {
+  sku: 'P100',
+  forecastUnits: 10000,
+  materials: MATERIALS,
+  bom: BOM.P100,
+  laborPct: 0.08,
+  energyPct: 0.04,
+  freight: 60,
+  warrantyPct: 0.01,
+  fixedCosts: 8500000,
+};
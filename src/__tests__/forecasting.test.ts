@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { backtestForecast, forecastSeries } from "../lib/forecasting";
+
+const series = [820, 835, 828, 846, 851, 860, 857, 872, 880, 876, 891, 898];
+
+describe("forecastSeries", () => {
+  it("gives the same bands for the same seed", () => {
+    const options = { model: 'arima' as const, horizon: 6, seed: 42, level: 0.9, paths: 500 };
+    expect(forecastSeries(series, options)).toEqual(forecastSeries(series, options));
+  });
+
+  it("brackets the point forecast and widens with the horizon", () => {
+    const bands = forecastSeries(series, { model: 'holtWinters', horizon: 6, seed: 7, level: 0.9, paths: 500 });
+    bands.forEach(b => {
+      expect(b.lower).toBeLessThanOrEqual(b.point);
+      expect(b.upper).toBeGreaterThanOrEqual(b.point);
+    });
+    expect(bands[5].upper - bands[5].lower).toBeGreaterThan(bands[0].upper - bands[0].lower);
+  });
+
+  it("continues a straight line under the drift model", () => {
+    const line = Array.from({ length: 12 }, (_, i) => 100 + 5 * i);
+    const bands = forecastSeries(line, { model: 'drift', horizon: 3, seed: 1, level: 0.9, paths: 100 });
+    expect(bands.map(b => b.point)).toEqual([160, 165, 170]);
+    expect(bands[0].upper - bands[0].lower).toBeCloseTo(0, 9);
+  });
+});
+
+describe("backtestForecast", () => {
+  it("scores a perfect fit as zero error", () => {
+    const line = Array.from({ length: 12 }, (_, i) => 100 + 5 * i);
+    const { mape, rmse } = backtestForecast(line, 'drift', 3);
+    expect(mape).toBeCloseTo(0, 9);
+    expect(rmse).toBeCloseTo(0, 9);
+  });
+
+  it("returns NaN when the holdout leaves too little to fit", () => {
+    expect(backtestForecast(series.slice(0, 4), 'drift', 2).mape).toBeNaN();
+  });
+});
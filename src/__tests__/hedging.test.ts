@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { computeCostsWithInventory } from "../lib/costing";
+import { backtestHedgePolicy, HEDGE_BACKTEST_WARMUP, hedgeBookCover, hedgeBookExposure, hedgedPrice, markToMarket, parseHedgeBookFile, strategyHedgeCover, summariseHedges } from "../lib/hedging";
+import { MATERIALS } from "../lib/masterData";
+import { p100Inputs } from "./fixtures";
+
+const instrument = { type: 'future' as const, strike: 880, floorStrike: 800, premium: 10, lotSize: 2500, expiry: "2026-12", settlement: 'cash' as const };
+
+describe("hedgedPrice", () => {
+  it("locks futures at the strike and forwards at strike plus premium", () => {
+    expect(hedgedPrice(instrument, 950)).toBe(880);
+    expect(hedgedPrice({ ...instrument, type: 'forward' }, 950)).toBe(890);
+  });
+
+  it("caps a call at the strike and keeps the premium", () => {
+    const call = { ...instrument, type: 'call' as const };
+    expect(hedgedPrice(call, 950)).toBe(890);
+    expect(hedgedPrice(call, 700)).toBe(710);
+  });
+
+  it("holds a collar between floor and cap", () => {
+    const collar = { ...instrument, type: 'collar' as const, premium: 0 };
+    expect(hedgedPrice(collar, 950)).toBe(880);
+    expect(hedgedPrice(collar, 850)).toBe(850);
+    expect(hedgedPrice(collar, 700)).toBe(800);
+  });
+});
+
+describe("parseHedgeBookFile", () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = "America/New_York";
+  });
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it("keeps trade and maturity dates on their calendar day", async () => {
+    const file = new File([
+      "Position ID,Material,Instrument,Qty,Price,Trade Date,Maturity\n"
+      + "H1,M_COPPER,MCX Futures,2500,870,2026-09-01,2026-12-31\n"
+    ], "book.csv");
+    const { positions, rejected } = await parseHedgeBookFile(file, ["M_COPPER"]);
+    expect(rejected).toBe(0);
+    expect(positions).toEqual([{
+      id: "H1", materialId: "M_COPPER", instrument: 'future', quantity: 2500, price: 870,
+      floorPrice: 0, premium: 0, tradeDate: "2026-09-01", maturity: "2026-12-31",
+    }]);
+  });
+
+  it("rejects unknown instruments and maturities before the trade date", async () => {
+    const file = new File([
+      "Material,Instrument,Qty,Price,Trade Date,Maturity\n"
+      + "M_COPPER,swap,2500,870,2026-09-01,2026-12-31\n"
+      + "M_COPPER,future,2500,870,2026-09-01,2026-08-31\n"
+    ], "book.csv");
+    const { positions, rejected } = await parseHedgeBookFile(file, ["M_COPPER"]);
+    expect(positions).toEqual([]);
+    expect(rejected).toBe(2);
+  });
+});
+
+describe("strategyHedgeCover", () => {
+  const unhedged = computeCostsWithInventory(p100Inputs);
+  const copperPlan = unhedged.procurementPlan.find(p => p.id === "M_COPPER")!;
+  const strategy = (hedgedPercentage: number, expiry = "2099-12") => ({
+    M_COPPER: { spotPercentage: 100 - hedgedPercentage, hedgedPercentage, instrument: { ...instrument, premium: 0, strike: 820, expiry } },
+  });
+
+  it("hedges whole lots of the purchase requirement, not the gross requirement", () => {
+    const cover = strategyHedgeCover(strategy(100), MATERIALS, unhedged.procurementPlan, {}, "2026-10-01");
+    expect(copperPlan.procureQty).toBeLessThan(copperPlan.grossReq);
+    expect(cover.M_COPPER).toEqual({ qty: Math.floor(copperPlan.procureQty / 2500) * 2500, price: 820 });
+  });
+
+  it("sizes on what the hedge book leaves open and blends with the book's price", () => {
+    const bookCover = { M_COPPER: { qty: 10000, price: 860 } };
+    const cover = strategyHedgeCover(strategy(100), MATERIALS, unhedged.procurementPlan, bookCover, "2026-10-01");
+    const planned = Math.floor((copperPlan.procureQty - 10000) / 2500) * 2500;
+    expect(cover.M_COPPER.qty).toBe(10000 + planned);
+    expect(cover.M_COPPER.price).toBeCloseTo((10000 * 860 + planned * 820) / (10000 + planned), 6);
+  });
+
+  it("ignores strategies whose instrument has expired", () => {
+    expect(strategyHedgeCover(strategy(100, "2026-09"), MATERIALS, unhedged.procurementPlan, {}, "2026-10-01")).toEqual({});
+  });
+});
+
+describe("summariseHedges", () => {
+  it("reports the engine's cost with the hedge blended into the moving average", () => {
+    const hedges = { M_COPPER: { spotPercentage: 0, hedgedPercentage: 100, instrument: { ...instrument, premium: 0, strike: 820, expiry: "2099-12" } } };
+    const unhedged = computeCostsWithInventory(p100Inputs);
+    const cover = strategyHedgeCover(hedges, MATERIALS, unhedged.procurementPlan, {}, "2026-10-01");
+    const hedged = computeCostsWithInventory({ ...p100Inputs, hedgeCover: cover });
+    const summary = summariseHedges({ hedges, bookCover: {}, cover, unhedged, hedged });
+
+    const copper = hedged.procurementPlan.find(p => p.id === "M_COPPER")!;
+    const covered = cover.M_COPPER.qty;
+    const expectedAvg = (1000 * 800 + covered * 820 + (copper.procureQty - covered) * 880) / (1000 + copper.procureQty);
+    expect(copper.avgCost).toBeCloseTo(expectedAvg, 6);
+    expect(summary.lines[0].hedgedAvgCost).toBeCloseTo(expectedAvg, 6);
+    expect(summary.lines[0].hedgePnl).toBeCloseTo(covered * (880 - 820), 4);
+    expect(summary.hedgedTotalCost).toBe(hedged.totalCost);
+    expect(summary.costDifference).toBeCloseTo(hedged.totalCost - unhedged.totalCost, 6);
+    expect(summary.costDifference).toBeLessThan(0);
+  });
+});
+
+describe("backtestHedgePolicy", () => {
+  const history = Array.from({ length: 24 }, (_, i) => ({ month: `2024-${String(i + 1).padStart(2, "0")}`, price: 800 + 10 * i }));
+  const context = { instrument: { ...instrument, strike: 800, premium: 0 }, currentPrice: 800, exposureQty: 10000, bomQty: 2, otherCost: 1000, listPrice: 5000 };
+  const settings = { policy: 'fixed' as const, hedgedPercentage: 50, tenorMonths: 3, model: 'drift' as const };
+
+  it("starts after the warm-up plus tenor and re-strikes at the decision month's price", () => {
+    const result = backtestHedgePolicy(history, settings, context);
+    expect(result.months).toHaveLength(24 - (HEDGE_BACKTEST_WARMUP + 2));
+    const first = result.months[0];
+    expect(first.month).toBe(history[HEDGE_BACKTEST_WARMUP + 2].month);
+    expect(first.hedgeRatio).toBe(0.5);
+    expect(first.effectivePrice).toBe(0.5 * history[HEDGE_BACKTEST_WARMUP - 1].price + 0.5 * first.spot);
+    expect(first.hedgePnl).toBeCloseTo(2 * 0.5 * 30, 6);
+  });
+
+  it("reports hedged and unhedged statistics over the same months", () => {
+    const result = backtestHedgePolicy(history, settings, context);
+    expect(result.totalHedgePnl).toBeCloseTo(result.months.length * 30, 6);
+    expect(result.hedged.avgCostPerUnit).toBeLessThan(result.unhedged.avgCostPerUnit);
+    // A steady trend saves the same every month, so margin volatility is unchanged
+    expect(result.hedged.marginVolatility).toBeCloseTo(result.unhedged.marginVolatility, 6);
+    expect(result.unhedged.worstMonth).toBe(history[history.length - 1].month);
+    expect(result.avgHedgedPercentage).toBe(50);
+  });
+
+  it("returns no months when the history is shorter than the warm-up", () => {
+    const result = backtestHedgePolicy(history.slice(0, HEDGE_BACKTEST_WARMUP), settings, context);
+    expect(result.months).toEqual([]);
+    expect(result.totalHedgePnl).toBe(0);
+  });
+});
+
+describe("hedge book", () => {
+  const position = { id: "H1", materialId: "M_COPPER", instrument: 'future' as const, quantity: 5000, price: 840, floorPrice: 0, premium: 0, tradeDate: "2026-09-01", maturity: "2026-12-31" };
+  const positions = [
+    position,
+    { ...position, id: "H2", instrument: 'call' as const, quantity: 2500, price: 900, premium: 15 },
+    { ...position, id: "H3", quantity: 4000, maturity: "2026-09-30" },
+    { ...position, id: "H4", quantity: 0 },
+  ];
+
+  it("covers open positions at their weighted locked-in price", () => {
+    const cover = hedgeBookCover(positions, MATERIALS, "2026-10-01");
+    // The call is out of the money at ₹880, so it buys at spot plus premium
+    expect(cover).toEqual({ M_COPPER: { qty: 7500, price: (5000 * 840 + 2500 * 895) / 7500 } });
+  });
+
+  it("splits the purchase requirement into hedged and open exposure", () => {
+    const { procurementPlan } = computeCostsWithInventory(p100Inputs);
+    const copperPlan = procurementPlan.find(p => p.id === "M_COPPER")!;
+    const exposure = hedgeBookExposure(positions, MATERIALS, procurementPlan, "2026-10-01");
+    const copper = exposure.find(e => e.id === "M_COPPER")!;
+    expect(copper.hedgedQty).toBe(7500);
+    expect(copper.openExposure).toBe(Math.max(0, copperPlan.procureQty - 7500));
+    expect(copper.coverPct).toBeCloseTo(Math.min(1, 7500 / copperPlan.procureQty), 6);
+    expect(copper.mtm).toBeCloseTo(markToMarket(positions[0], 880) + markToMarket(positions[1], 880), 6);
+    expect(copper.mtm).toBeCloseTo(5000 * 40 - 2500 * 15, 6);
+  });
+
+  it("flags cover beyond the purchase requirement as over-hedged", () => {
+    const { procurementPlan } = computeCostsWithInventory(p100Inputs);
+    const copperPlan = procurementPlan.find(p => p.id === "M_COPPER")!;
+    const big = [{ ...position, quantity: copperPlan.procureQty + 1000 }];
+    const copper = hedgeBookExposure(big, MATERIALS, procurementPlan, "2026-10-01").find(e => e.id === "M_COPPER")!;
+    expect(copper.openExposure).toBe(0);
+    expect(copper.overHedgedQty).toBe(1000);
+    expect(copper.coverPct).toBe(1);
+  });
+});
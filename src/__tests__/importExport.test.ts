@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FX } from "../lib/currency";
+import { buildImportPreview, ColumnMapping, guessColumnMapping, importPriceRatios } from "../lib/importExport";
+import { BOM, MATERIALS } from "../lib/masterData";
+
+const headers = ["Material ID", "Name", "UoM", "Currency", "New Price", "Old Cost", "On-hand", "BOM Qty"];
+
+describe("guessColumnMapping", () => {
+  it("maps the exported headers back to their fields", () => {
+    expect(guessColumnMapping(headers)).toEqual({ id: 0, name: 1, uom: 2, currency: 3, newPrice: 4, oldCost: 5, onHand: 6, bomQty: 7 });
+  });
+});
+
+describe("buildImportPreview", () => {
+  const mapping = guessColumnMapping(headers);
+  const preview = (...rows: string[][]) => buildImportPreview(rows, mapping, MATERIALS, BOM.P100, DEFAULT_FX);
+
+  it("diffs changed fields against the material master", () => {
+    const [row] = preview(["M_COPPER", "", "", "", "900", "", "1,200", "2.4"]);
+    expect(row.status).toBe('changed');
+    expect(row.changes).toEqual([
+      { field: 'newPrice', before: 880, after: 900 },
+      { field: 'onHand', before: 1000, after: 1200 },
+      { field: 'bomQty', before: 2.5, after: 2.4 },
+    ]);
+    expect(row.rowNumber).toBe(2);
+  });
+
+  it("marks rows that match the master as unchanged", () => {
+    expect(preview(["M_COPPER", "", "", "", "880", "", "", ""])[0].status).toBe('unchanged');
+  });
+
+  it("creates a new material with its old and standard cost at the INR price", () => {
+    const [row] = preview(["M_NEW", "Ferrite Core", "EA", "USD", "2", "", "", "1"]);
+    expect(row.status).toBe('new');
+    expect(row.material).toMatchObject({ currency: 'USD', newPrice: 2, oldCost: 2 * DEFAULT_FX.rates.USD, stdCost: 2 * DEFAULT_FX.rates.USD, onHand: 0 });
+    expect(row.bomQty).toBe(1);
+  });
+
+  it("says what is wrong with an invalid row", () => {
+    const [missing, noPrice, badNumber, badCurrency] = preview(
+      ["M_NEW", "", "", "", "", "", "", ""],
+      ["M_NEW2", "Ferrite Core", "EA", "", "", "", "", ""],
+      ["M_COPPER", "", "", "", "-5", "", "", ""],
+      ["M_ABS", "", "", "GBP", "", "", "", ""],
+    );
+    expect(missing.errors).toEqual(["Name is required for a new material", "UoM is required for a new material"]);
+    expect(noPrice.errors).toEqual(["New Price is required for a new material"]);
+    expect(badNumber.errors).toEqual(['New Price "-5" is not a valid non-negative number']);
+    expect(badCurrency.errors[0]).toMatch(/^Currency "GBP" is not one of/);
+    [missing, noPrice, badNumber, badCurrency].forEach(r => expect(r.status).toBe('invalid'));
+  });
+
+  it("rejects a repeated material ID", () => {
+    const [, repeat] = preview(["M_ABS", "", "", "", "181", "", "", ""], ["M_ABS", "", "", "", "182", "", "", ""]);
+    expect(repeat.status).toBe('invalid');
+    expect(repeat.errors).toEqual(["Duplicate material ID M_ABS"]);
+  });
+});
+
+describe("buildImportPreview conflicts", () => {
+  const mapping = guessColumnMapping(headers);
+  const row = ["M_COPPER", "", "", "", "900", "", "", ""];
+
+  it("rejects every row while a column is mapped to two fields", () => {
+    const conflicted: ColumnMapping = { ...mapping, oldCost: mapping.newPrice };
+    const [preview] = buildImportPreview([row], conflicted, MATERIALS, BOM.P100, DEFAULT_FX);
+    expect(preview.status).toBe('invalid');
+    expect(preview.errors).toContain("Column 5 is mapped to New Price and Old Cost");
+  });
+
+  it("accepts the same row once the mapping is unambiguous", () => {
+    const [preview] = buildImportPreview([row], mapping, MATERIALS, BOM.P100, DEFAULT_FX);
+    expect(preview.status).toBe('changed');
+  });
+});
+
+describe("importPriceRatios", () => {
+  const copper = MATERIALS.find(m => m.id === "M_COPPER")!;
+
+  it("gives the price move of each changed material", () => {
+    const rows = buildImportPreview([["M_COPPER", "", "", "", "968", "", "", ""]], guessColumnMapping(headers), MATERIALS, BOM.P100, DEFAULT_FX);
+    expect(importPriceRatios(rows, MATERIALS, DEFAULT_FX)).toEqual({ M_COPPER: 968 / copper.newPrice });
+  });
+
+  it("leaves quotes alone when only the quoting currency changes", () => {
+    const usdPrice = String(copper.newPrice / DEFAULT_FX.rates.USD);
+    const rows = buildImportPreview([["M_COPPER", "", "", "USD", usdPrice, "", "", ""]], guessColumnMapping(headers), MATERIALS, BOM.P100, DEFAULT_FX);
+    const ratios = importPriceRatios(rows, MATERIALS, DEFAULT_FX);
+    expect(ratios.M_COPPER ?? 1).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { computeCostsWithInventory, scrapGrossUp, ValuationMethod } from "../lib/costing";
+import { BOM, MATERIALS } from "../lib/masterData";
+import { computePortfolioCosts } from "../lib/portfolio";
+import { p100Inputs } from "./fixtures";
+
+const portfolioInputs = {
+  forecasts: { P100: 10000, P200: 6000, P300: 8000 },
+  materials: MATERIALS,
+  boms: BOM,
+  listPrices: { P100: 6500, P200: 9000, P300: 3500 },
+  targetMargins: { P100: 0.25, P200: 0.25, P300: 0.25 },
+  allocationRule: 'proRata' as const,
+  priority: ["P100", "P200", "P300"] as Array<"P100" | "P200" | "P300">,
+  laborPct: 0.08,
+  energyPct: 0.04,
+  freight: 60,
+  warrantyPct: 0.01,
+};
+
+// Only P100 has volume, so the portfolio should cost it exactly as the single-SKU engine does
+const p100Only = { ...portfolioInputs, forecasts: { P100: 10000, P200: 0, P300: 0 } };
+
+const copper = MATERIALS.find(m => m.id === "M_COPPER")!;
+const copperReq = (sku: "P100" | "P200" | "P300") =>
+  (BOM[sku].find(l => l.materialId === "M_COPPER")?.qty ?? 0) * portfolioInputs.forecasts[sku] * scrapGrossUp(copper);
+
+describe("portfolio allocation rules", () => {
+  it("shares on-hand stock in proportion to requirement under pro-rata", () => {
+    const { allocation } = computePortfolioCosts(portfolioInputs);
+    const total = copperReq('P100') + copperReq('P200') + copperReq('P300');
+    (["P100", "P200", "P300"] as const).forEach(sku => {
+      expect(allocation.M_COPPER[sku]).toBeCloseTo(copper.onHand * copperReq(sku) / total, 6);
+    });
+  });
+
+  it("fills SKUs in priority order until stock runs out", () => {
+    const { allocation, claimOrder } = computePortfolioCosts({ ...portfolioInputs, allocationRule: 'priority', priority: ["P200", "P100", "P300"] });
+    expect(claimOrder).toEqual(["P200", "P100", "P300"]);
+    expect(allocation.M_COPPER.P200).toBeCloseTo(Math.min(copper.onHand, copperReq('P200')), 6);
+    expect(allocation.M_COPPER.P100).toBeCloseTo(Math.max(0, copper.onHand - copperReq('P200')), 6);
+  });
+
+  it("claims for the highest replacement-cost margin first under margin-first", () => {
+    const { claimOrder } = computePortfolioCosts({ ...portfolioInputs, allocationRule: 'marginFirst' });
+    const noStock = MATERIALS.map(m => ({ ...m, onHand: 0 }));
+    const margin = (sku: "P100" | "P200" | "P300") => computeCostsWithInventory({
+      ...p100Inputs, sku, forecastUnits: portfolioInputs.forecasts[sku], bom: BOM[sku], materials: noStock,
+      listPriceOverride: portfolioInputs.listPrices[sku], fixedCosts: 0,
+    }).marginPct;
+    const expected = (["P100", "P200", "P300"] as const).slice().sort((a, b) => margin(b) - margin(a));
+    expect(claimOrder).toEqual(expected);
+  });
+
+  it("never allocates more than is on hand", () => {
+    (['proRata', 'priority', 'marginFirst'] as const).forEach(allocationRule => {
+      const { allocation } = computePortfolioCosts({ ...portfolioInputs, allocationRule });
+      MATERIALS.forEach(m => {
+        const allocated = Object.values(allocation[m.id]).reduce((sum, q) => sum + q, 0);
+        expect(allocated).toBeLessThanOrEqual(m.onHand + 1e-9);
+      });
+    });
+  });
+});
+
+describe("computePortfolioCosts", () => {
+  it.each<ValuationMethod>(['movingAverage', 'fifo', 'standard'])("values issues by %s like the single-SKU engine", valuationMethod => {
+    const portfolio = computePortfolioCosts({ ...p100Only, valuationMethod });
+    const single = computeCostsWithInventory({ ...p100Inputs, valuationMethod });
+    const p100 = portfolio.skuResults.find(r => r.sku === 'P100')!.result;
+    expect(p100.directMaterialCost).toBeCloseTo(single.directMaterialCost, 6);
+    expect(p100.purchasePriceVariance).toBeCloseTo(single.purchasePriceVariance, 6);
+    portfolio.procurementPlan.filter(p => p.grossReq > 0).forEach(p => {
+      expect(p.avgCost).toBeCloseTo(single.procurementPlan.find(s => s.id === p.id)!.avgCost, 6);
+    });
+  });
+
+  it("buys hedged volume at the locked-in price like the single-SKU engine", () => {
+    const hedgeCover = { M_COPPER: { qty: 10000, price: 800 } };
+    const portfolio = computePortfolioCosts({ ...p100Only, hedgeCover });
+    const single = computeCostsWithInventory({ ...p100Inputs, hedgeCover });
+    const copper = portfolio.procurementPlan.find(p => p.id === "M_COPPER")!;
+    const singleCopper = single.procurementPlan.find(p => p.id === "M_COPPER")!;
+    expect(copper.purchasePrice).toBeCloseTo(singleCopper.purchasePrice, 6);
+    expect(copper.spend).toBeCloseTo(singleCopper.spend, 4);
+    expect(portfolio.skuResults[0].result.directMaterialCost).toBeCloseTo(single.directMaterialCost, 6);
+    expect(copper.purchasePrice).toBeLessThan(computePortfolioCosts(p100Only).procurementPlan.find(p => p.id === "M_COPPER")!.purchasePrice);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { loadPriceHistory, parsePriceHistoryFile, samplePriceHistory } from "../lib/priceHistory";
+
+describe("parsePriceHistoryFile", () => {
+  const originalTz = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = "America/New_York";
+  });
+  afterAll(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it("reads CSV rows without shifting the date a day back", async () => {
+    const file = new File(["Material ID,Date,Price\nM_COPPER,2026-09-15,\"1,020.5\"\n"], "history.csv");
+    const { points, rejected } = await parsePriceHistoryFile(file, ["M_COPPER"]);
+    expect(rejected).toBe(0);
+    expect(points).toEqual([{ materialId: "M_COPPER", date: "2026-09-15", price: 1020.5 }]);
+  });
+
+  it("rejects unknown materials, bad dates and non-positive prices", async () => {
+    const rows = [
+      { materialId: "M_COPPER", date: "2026-09-01", price: 850 },
+      { materialId: "M_UNKNOWN", date: "2026-09-01", price: 850 },
+      { materialId: "M_COPPER", date: "2026-02-30", price: 850 },
+      { materialId: "M_COPPER", date: "2026-09-02", price: 0 },
+    ];
+    const file = new File([JSON.stringify(rows)], "history.json");
+    const { points, rejected } = await parsePriceHistoryFile(file, ["M_COPPER"]);
+    expect(points).toEqual([rows[0]]);
+    expect(rejected).toBe(3);
+  });
+});
+
+describe("loadPriceHistory", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const storing = (value: string | null) => vi.stubGlobal("localStorage", { getItem: () => value });
+
+  it("returns stored points when they are well formed", () => {
+    const stored = [{ materialId: "M_COPPER", date: "2026-09-15", price: 851 }];
+    storing(JSON.stringify(stored));
+    expect(loadPriceHistory()).toEqual(stored);
+  });
+
+  it("falls back to the sample history when storage holds the wrong shape", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    storing(JSON.stringify({ materialId: "M_COPPER" }));
+    expect(loadPriceHistory()).toEqual(samplePriceHistory());
+    storing(JSON.stringify([{ materialId: "M_COPPER", date: "Sep 2026", price: "851" }]));
+    expect(loadPriceHistory()).toEqual(samplePriceHistory());
+  });
+
+  it("falls back to the sample history when nothing is stored", () => {
+    storing(null);
+    expect(loadPriceHistory()).toEqual(samplePriceHistory());
+  });
+});
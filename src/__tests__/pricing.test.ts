@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { computeCostsWithInventory, SALES_CHANNELS } from "../lib/costing";
+import { fitElasticity, optimisePrice } from "../lib/pricing";
+import { p100Inputs } from "./fixtures";
+
+describe("recommended price", () => {
+  it("is cost-plus on total cost, ex-works", () => {
+    const r = computeCostsWithInventory(p100Inputs);
+    expect(r.recommendedSP).toBeCloseTo(r.totalCost / (1 - r.targetMargin), 6);
+    expect(r.recommendedMrp).toBeCloseTo(r.recommendedSP, 6);
+  });
+
+  it("grosses the MRP up through the channel waterfall", () => {
+    const r = computeCostsWithInventory({ ...p100Inputs, channel: SALES_CHANNELS.generalTrade.waterfall });
+    expect(r.recommendedSP).toBeCloseTo(r.totalCost / (1 - r.targetMargin), 6);
+    expect(r.recommendedMrp).toBeCloseTo(r.recommendedSP * r.listPrice / r.netRealisation, 6);
+    expect(r.netRealisation).toBeLessThan(r.listPrice);
+  });
+});
+
+describe("fitElasticity", () => {
+  it("recovers the elasticity of a constant-elasticity curve", () => {
+    const history = [5000, 6000, 7000, 8000].map(price => ({ price, units: 1e9 * Math.pow(price, -1.8) }));
+    const fit = fitElasticity(history)!;
+    expect(fit.elasticity).toBeCloseTo(-1.8, 9);
+    expect(fit.r2).toBeCloseTo(1, 9);
+  });
+
+  it("ignores non-positive points and needs two distinct prices", () => {
+    expect(fitElasticity([{ price: 6500, units: 10000 }, { price: 0, units: 12000 }])).toBeUndefined();
+    expect(fitElasticity([{ price: 6500, units: 10000 }, { price: 6500, units: 9000 }])).toBeUndefined();
+  });
+});
+
+describe("optimisePrice", () => {
+  it("finds an interior optimum at least as good as every grid price", () => {
+    const { curve, optimum, current, atBound } = optimisePrice(p100Inputs, -3);
+    expect(atBound).toBe(false);
+    curve.forEach(p => expect(optimum.contribution).toBeGreaterThanOrEqual(p.contribution - 1e-6));
+    expect(current.price).toBe(6500);
+    expect(current.units).toBeCloseTo(p100Inputs.forecastUnits, 6);
+  });
+
+  it("flags an optimum at the edge of the search range when demand is inelastic", () => {
+    const { optimum, atBound } = optimisePrice(p100Inputs, -0.3, { minFactor: 0.6, maxFactor: 1.6 });
+    expect(atBound).toBe(true);
+    expect(optimum.price).toBeCloseTo(6500 * 1.6, 6);
+  });
+
+  it("prices the cost-plus point at the recommended MRP", () => {
+    const { costPlus } = optimisePrice(p100Inputs, -1.8);
+    expect(costPlus?.price).toBeCloseTo(computeCostsWithInventory(p100Inputs).recommendedMrp, 6);
+  });
+});
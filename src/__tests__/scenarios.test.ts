@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { applySubstitutions, computeCostsWithInventory, defaultChannelWaterfalls } from "../lib/costing";
+import { DEFAULT_FX } from "../lib/currency";
+import { HedgePosition } from "../lib/hedging";
+import { BOM, MATERIALS, PLANTS, ROUTINGS, SUBSTITUTIONS } from "../lib/masterData";
+import { DEMAND_MODELS } from "../lib/pricing";
+import { diffScenarioResults, migrateScenario, SCENARIO_SCHEMA_VERSION, scenarioCostInputs, ScenarioInputs } from "../lib/scenarios";
+import { p100Inputs } from "./fixtures";
+
+type Saved = Parameters<typeof migrateScenario>[0];
+
+const saved = (schemaVersion: number, inputs: Record<string, unknown>) =>
+  ({ schemaVersion, id: "s1", name: "Saved", savedAt: "2026-01-01T00:00:00.000Z", inputs } as unknown as Saved);
+
+describe("migrateScenario", () => {
+  it("fills in the sample demand models for v8 scenarios", () => {
+    const migrated = migrateScenario(saved(8, { sku: 'P100', forecastUnits: 10000 }));
+    expect(migrated.schemaVersion).toBe(SCENARIO_SCHEMA_VERSION);
+    expect(migrated.inputs.demandModels).toEqual(DEMAND_MODELS);
+  });
+
+  it("keeps saved demand models", () => {
+    const demandModels = { ...DEMAND_MODELS, P100: { ...DEMAND_MODELS.P100, elasticity: -2.4 } };
+    const migrated = migrateScenario(saved(SCENARIO_SCHEMA_VERSION, { sku: 'P100', demandModels }));
+    expect(migrated.inputs.demandModels.P100.elasticity).toBe(-2.4);
+  });
+
+  it("phases the forecast evenly and takes the portfolio and currency defaults for v9 scenarios", () => {
+    const migrated = migrateScenario(saved(9, { sku: 'P100', forecastUnits: 12000, demandModels: DEMAND_MODELS }));
+    expect(migrated.schemaVersion).toBe(SCENARIO_SCHEMA_VERSION);
+    expect(migrated.inputs.monthlyDemand).toEqual(Array(12).fill(1000));
+    expect(migrated.inputs.allocationRule).toBe('proRata');
+    expect(migrated.inputs.skuPriority).toEqual(["P100", "P200", "P300"]);
+    expect(migrated.inputs.reportCurrency).toBe('INR');
+  });
+
+  it("starts v10 scenarios with an empty hedge book", () => {
+    const migrated = migrateScenario(saved(10, { sku: 'P100', forecastUnits: 12000 }));
+    expect(migrated.schemaVersion).toBe(SCENARIO_SCHEMA_VERSION);
+    expect(migrated.inputs.hedgeBook).toEqual([]);
+  });
+
+  it("carries a v1 scenario through every step to the current schema", () => {
+    const migrated = migrateScenario(saved(1, {
+      sku: 'P200',
+      forecastUnits: 6000,
+      materials: [{ id: "M_COPPER", newPrice: 870 }],
+      hedgingStrategy: { spotPercentage: 60, hedgedPercentage: 40, avgHedgedPrice: 850 },
+    }));
+    expect(migrated.schemaVersion).toBe(SCENARIO_SCHEMA_VERSION);
+    expect(migrated.inputs.hedges.M_COPPER.instrument.strike).toBe(850);
+    expect(migrated.inputs.materials[0].currency).toBe('INR');
+    expect(migrated.inputs.salesChannel).toBe('exWorks');
+    expect(migrated.inputs.portfolioForecasts.P200).toBe(6000);
+    expect(migrated.inputs.monthlyDemand).toHaveLength(12);
+  });
+
+  it("gives a v1 scenario saved without a hedging strategy the unhedged copper baseline", () => {
+    const migrated = migrateScenario(saved(1, {
+      sku: 'P100',
+      forecastUnits: 10000,
+      materials: [{ id: "M_COPPER", newPrice: 870 }],
+    }));
+    expect(migrated.schemaVersion).toBe(SCENARIO_SCHEMA_VERSION);
+    expect(migrated.inputs.hedges.M_COPPER).toMatchObject({ spotPercentage: 100, hedgedPercentage: 0 });
+    expect(migrated.inputs.hedges.M_COPPER.instrument.strike).toBe(870);
+  });
+});
+
+describe("scenarioCostInputs", () => {
+  const inputs: ScenarioInputs = {
+    sku: 'P100', forecastUnits: 10000, materials: MATERIALS, bom: BOM, substitutions: [],
+    listPrice: 7000, targetMargin: 0.25, laborPct: 0.08, energyPct: 0.04, freight: 60, warrantyPct: 0.01,
+    valuationMethod: 'movingAverage', hedges: {}, fx: DEFAULT_FX, suppliers: [], overheadModel: 'percent',
+    routings: ROUTINGS, plants: PLANTS, fixedCostPools: [], portfolioForecasts: { P100: 10000, P200: 0, P300: 0 },
+    salesChannel: 'exWorks', channelWaterfalls: defaultChannelWaterfalls(), demandModels: DEMAND_MODELS,
+    monthlyDemand: Array(12).fill(833), allocationRule: 'proRata', skuPriority: ["P100", "P200", "P300"],
+    reportCurrency: 'INR', hedgeBook: [],
+  };
+  const position = (maturity: string): HedgePosition => ({
+    id: "H1", materialId: "M_COPPER", instrument: 'future', quantity: 5000, price: 850,
+    floorPrice: 0, premium: 0, tradeDate: "2026-09-01", maturity,
+  });
+
+  it("covers purchases with the saved hedge book's open positions", () => {
+    const cost = scenarioCostInputs({ ...inputs, hedgeBook: [position("2026-12-31")] }, "2026-10-01");
+    expect(cost.hedgeCover).toEqual({ M_COPPER: { qty: 5000, price: 850 } });
+  });
+
+  it("leaves out positions that matured before the costing date", () => {
+    const cost = scenarioCostInputs({ ...inputs, hedgeBook: [position("2026-09-30")] }, "2026-10-01");
+    expect(cost.hedgeCover).toEqual({});
+  });
+});
+
+describe("diffScenarioResults", () => {
+  const dearerCopper = MATERIALS.map(m => m.id === "M_COPPER" ? { ...m, newPrice: 950 } : m);
+  const base = computeCostsWithInventory(p100Inputs);
+
+  it("bridges the margin change exactly, step by step", () => {
+    const compare = computeCostsWithInventory({
+      ...p100Inputs,
+      materials: dearerCopper,
+      bom: applySubstitutions(BOM.P100, [{ ...SUBSTITUTIONS[0], pct: 0.2 }], dearerCopper),
+      listPriceOverride: 6800,
+      freight: 75,
+    });
+    const diff = diffScenarioResults(base, compare, [MATERIALS, dearerCopper]);
+    const bridged = diff.bridge.reduce((sum, step) => sum + step.delta, 0);
+    expect(diff.marginDelta).toBeCloseTo(compare.marginInr - base.marginInr, 9);
+    expect(bridged).toBeCloseTo(diff.marginDelta, 1);
+    expect(diff.bridge.find(s => s.driver === "Net Realisation")!.delta).toBeCloseTo(300);
+    expect(diff.bridge.find(s => s.driver === "Freight")!.delta).toBeCloseTo(-15);
+  });
+
+  it("splits a material's change into quantity and cost effects", () => {
+    const halfCopperBom = BOM.P100.map(l => l.materialId === "M_COPPER" ? { ...l, qty: 1.25 } : l);
+    const compare = computeCostsWithInventory({ ...p100Inputs, materials: dearerCopper, bom: halfCopperBom });
+    const diff = diffScenarioResults(base, compare, [MATERIALS, dearerCopper]);
+    const copper = diff.materialDiffs.find(d => d.id === "M_COPPER")!;
+    const qty = diff.bridge.find(s => s.driver === "Copper qty")!.delta;
+    const cost = diff.bridge.find(s => s.driver === "Copper cost")!.delta;
+    expect(copper.bomQty).toEqual([2.5, 1.25]);
+    expect(qty).toBeCloseTo(1.25 * copper.avgCost[0]);
+    expect(cost).toBeCloseTo(-1.25 * (copper.avgCost[1] - copper.avgCost[0]));
+    expect(qty + cost).toBeCloseTo(copper.contribution[0] - copper.contribution[1]);
+  });
+});
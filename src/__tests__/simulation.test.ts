@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { computeCostsWithInventory } from "../lib/costing";
+import { costDrivers, DEFAULT_VOLATILITY, goalSeek, runMonteCarlo, runSensitivity } from "../lib/simulation";
+import { p100Inputs } from "./fixtures";
+
+const settings = {
+  iterations: 300,
+  seed: 12345,
+  volatility: DEFAULT_VOLATILITY,
+  correlation: { a: "M_COPPER", b: "M_ALUM", rho: 0.7 },
+};
+
+describe("runMonteCarlo", () => {
+  it("is reproducible for a fixed seed", () => {
+    const a = runMonteCarlo(p100Inputs, settings);
+    const b = runMonteCarlo(p100Inputs, settings);
+    expect(a.totalCost).toEqual(b.totalCost);
+    expect(a.stats).toEqual(b.stats);
+  });
+
+  it("centres the draws on today's cost", () => {
+    const { stats } = runMonteCarlo(p100Inputs, settings);
+    const base = computeCostsWithInventory(p100Inputs).totalCost;
+    expect(stats.totalCost.p5).toBeLessThan(base);
+    expect(stats.totalCost.p95).toBeGreaterThan(base);
+    expect(Math.abs(stats.totalCost.mean - base) / base).toBeLessThan(0.02);
+  });
+
+  it("collapses to the deterministic cost with zero volatility", () => {
+    const result = runMonteCarlo(p100Inputs, { ...settings, iterations: 20, volatility: {} });
+    const base = computeCostsWithInventory(p100Inputs).totalCost;
+    result.totalCost.forEach(c => expect(c).toBeCloseTo(base, 6));
+    expect(result.probBelowTarget).toBe(computeCostsWithInventory(p100Inputs).marginPct < result.targetMargin ? 1 : 0);
+  });
+});
+
+const driver = (id: string) => {
+  const found = costDrivers(p100Inputs).find(d => d.id === id);
+  if (!found) throw new Error(`no driver ${id}`);
+  return found;
+};
+
+describe("goalSeek", () => {
+  it("solves a material price for a target margin", () => {
+    const copper = driver("price:M_COPPER");
+    const result = goalSeek(p100Inputs, copper, 'marginPct', 0.10);
+    expect(result.status).toBe('solved');
+    if (result.status !== 'solved') return;
+    expect(result.exact).toBe(true);
+    expect(computeCostsWithInventory(copper.set(p100Inputs, result.value)).marginPct).toBeCloseTo(0.10, 5);
+  });
+
+  it("returns today's value without iterating when the target already holds", () => {
+    const units = driver("forecastUnits");
+    const current = computeCostsWithInventory(p100Inputs).totalCost;
+    const result = goalSeek(p100Inputs, units, 'totalCost', current);
+    expect(result).toMatchObject({ status: 'solved', value: 10000, iterations: 0, exact: true });
+  });
+
+  it("prefers a smooth crossing over the fixed-cost jump at zero volume", () => {
+    const result = goalSeek(p100Inputs, driver("forecastUnits"), 'marginPct', 0.25);
+    expect(result.status).toBe('solved');
+    if (result.status !== 'solved') return;
+    expect(result.exact).toBe(true);
+    expect(result.value).toBeGreaterThan(10000);
+  });
+
+  it("reports no solution with the searched range and closest point", () => {
+    const result = goalSeek(p100Inputs, driver("price:M_COPPER"), 'marginPct', 0.90);
+    expect(result.status).toBe('noSolution');
+    if (result.status !== 'noSolution') return;
+    expect(result.searched[0]).toBe(0);
+    expect(result.closest.value).toBe(0);
+    expect(result.closest.achieved).toBeLessThan(0.90);
+  });
+});
+
+describe("runSensitivity", () => {
+  const sensitivity = runSensitivity(p100Inputs, 0.1);
+
+  it("costs the base case once and flexes every driver both ways", () => {
+    expect(sensitivity.base.totalCost).toBe(computeCostsWithInventory(p100Inputs).totalCost);
+    expect(sensitivity.rows.map(r => r.id).sort()).toEqual(costDrivers(p100Inputs).map(d => d.id).sort());
+  });
+
+  it("records each end as the engine result at that flex", () => {
+    const freight = sensitivity.rows.find(r => r.id === "freight")!;
+    expect(freight.value).toBe(60);
+    expect(freight.low.recommendedSP).toBeCloseTo(computeCostsWithInventory({ ...p100Inputs, freight: 54 }).recommendedSP);
+    expect(freight.high.marginPct).toBeCloseTo(computeCostsWithInventory({ ...p100Inputs, freight: 66 }).marginPct);
+    expect(freight.spSwing).toBeCloseTo(Math.abs(freight.high.recommendedSP - freight.low.recommendedSP));
+  });
+
+  it("ranks drivers by margin swing", () => {
+    const swings = sensitivity.rows.map(r => r.marginSwing);
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+    expect(sensitivity.rows[0].id).toBe("listPrice");
+  });
+
+  it("moves margin against cost drivers and with the list price", () => {
+    const copper = sensitivity.rows.find(r => r.id === "price:M_COPPER")!;
+    const listPrice = sensitivity.rows.find(r => r.id === "listPrice")!;
+    expect(copper.high.marginPct).toBeLessThan(copper.low.marginPct);
+    expect(listPrice.high.marginPct).toBeGreaterThan(listPrice.low.marginPct);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FX } from "../lib/currency";
+import { breakPrice, sourceRequirement, supplierOrderQty } from "../lib/sourcing";
+
+const supplier = (id: string, price: number, extra: Partial<Parameters<typeof breakPrice>[0]> = {}) => ({
+  id,
+  name: id,
+  materialId: "M_TEST",
+  currency: 'INR' as const,
+  priceBreaks: [{ minQty: 0, price }],
+  moq: 0,
+  packSize: 1,
+  leadTimeMonths: 1,
+  ...extra,
+});
+
+describe("breakPrice", () => {
+  it("applies the highest tier the order reaches, else the first", () => {
+    const s = supplier("A", 0, { priceBreaks: [{ minQty: 1000, price: 90 }, { minQty: 500, price: 95 }] });
+    expect(breakPrice(s, 100)).toBe(95);
+    expect(breakPrice(s, 600)).toBe(95);
+    expect(breakPrice(s, 1000)).toBe(90);
+  });
+});
+
+describe("supplierOrderQty", () => {
+  it("rounds up to the MOQ and then to whole packs", () => {
+    const s = supplier("A", 100, { moq: 500, packSize: 200 });
+    expect(supplierOrderQty(s, 120)).toBe(600);
+    expect(supplierOrderQty(s, 650)).toBe(800);
+    expect(supplierOrderQty(s, 0)).toBe(0);
+  });
+});
+
+describe("sourceRequirement", () => {
+  it("is undefined without suppliers", () => {
+    expect(sourceRequirement([], 100, DEFAULT_FX, 3, 100)).toBeUndefined();
+  });
+
+  it("orders at least the MOQ, in whole packs", () => {
+    const plan = sourceRequirement([supplier("A", 100, { moq: 500, packSize: 250 })], 320, DEFAULT_FX, 3, 120)!;
+    expect(plan.qty).toBe(500);
+    expect(plan.spend).toBeCloseTo(50000);
+    expect(plan.leadTimeBreach).toBe(false);
+  });
+
+  it("splits across suppliers when the cheapest runs out of capacity", () => {
+    const plan = sourceRequirement([
+      supplier("CHEAP", 100, { capacity: 1000, packSize: 100 }),
+      supplier("DEAR", 110),
+    ], 1500, DEFAULT_FX, 3, 150)!;
+    expect(plan.allocations.map(a => [a.supplierId, a.qty])).toEqual([["CHEAP", 1000], ["DEAR", 500]]);
+    expect(plan.spend).toBeCloseTo(100000 + 55000);
+  });
+
+  it("prefers a dearer supplier when another's MOQ would overbuy", () => {
+    const plan = sourceRequirement([
+      supplier("BULK", 90, { moq: 5000 }),
+      supplier("SMALL", 100),
+    ], 1000, DEFAULT_FX, 3, 150)!;
+    expect(plan.allocations.map(a => a.supplierId)).toEqual(["SMALL"]);
+  });
+
+  it("buys volume beyond total capacity at the fallback price", () => {
+    const plan = sourceRequirement([
+      supplier("A", 100, { capacity: 400 }),
+      supplier("B", 105, { capacity: 300 }),
+    ], 1000, DEFAULT_FX, 3, 130)!;
+    const unsourced = plan.allocations.find(a => a.supplierId === "");
+    expect(unsourced).toMatchObject({ name: "Unsourced", qty: 300, unitPrice: 130 });
+    expect(plan.qty).toBe(1000);
+    expect(plan.spend).toBeCloseTo(40000 + 31500 + 39000);
+  });
+
+  it("uses slow suppliers only when none meets the lead time, and flags the breach", () => {
+    const slowCheap = supplier("SLOW", 80, { leadTimeMonths: 4 });
+    const fast = supplier("FAST", 100, { leadTimeMonths: 1 });
+    const inTime = sourceRequirement([slowCheap, fast], 100, DEFAULT_FX, 2, 120)!;
+    expect(inTime.allocations.map(a => a.supplierId)).toEqual(["FAST"]);
+    expect(inTime.leadTimeBreach).toBe(false);
+
+    const breach = sourceRequirement([slowCheap], 100, DEFAULT_FX, 2, 120)!;
+    expect(breach.allocations.map(a => a.supplierId)).toEqual(["SLOW"]);
+    expect(breach.leadTimeBreach).toBe(true);
+  });
+
+  it("converts foreign quotes at the FX rate", () => {
+    const plan = sourceRequirement([supplier("USD", 10, { currency: 'USD' })], 100, DEFAULT_FX, 3, 2000)!;
+    expect(plan.avgPrice).toBeCloseTo(10 * DEFAULT_FX.rates.USD);
+  });
+
+  it("scales the cached plan when quotes and fallback move together", () => {
+    const suppliers = [supplier("A", 100, { capacity: 400 }), supplier("B", 105)];
+    const base = sourceRequirement(suppliers, 1000, DEFAULT_FX, 3, 130)!;
+    const scaled = sourceRequirement(suppliers.map(s => ({ ...s, priceBreaks: s.priceBreaks.map(t => ({ ...t, price: t.price * 1.2 })) })), 1000, DEFAULT_FX, 3, 156)!;
+    expect(scaled.allocations.map(a => a.qty)).toEqual(base.allocations.map(a => a.qty));
+    expect(scaled.spend).toBeCloseTo(base.spend * 1.2);
+  });
+});
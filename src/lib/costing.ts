@@ -0,0 +1,420 @@
+import { Currency, DEFAULT_FX, FxSettings, inrRate } from "./currency";
+import { BomLine, LandedCostTerms, Material, Operation, Plant, PRODUCTS, SubstitutionRule, Supplier } from "./masterData";
+import { sourceRequirement, SourcingPlan } from "./sourcing";
+
+// Channel price waterfall; each deduction is a fraction of the price left after the previous step
+export interface PriceWaterfall {
+  dealerMarginPct: number;       // of MRP
+  distributorMarginPct: number;  // of the dealer's buying price
+  schemePct: number;             // trade schemes
+  cashDiscountPct: number;
+  gstPct: number;                // MRP and trade prices include GST
+}
+
+export type SalesChannel = 'exWorks' | 'generalTrade' | 'modernTrade' | 'online';
+
+export const SALES_CHANNELS: Record<SalesChannel, { label: string; waterfall: PriceWaterfall }> = {
+  exWorks: { label: "Ex-works (list price realised)", waterfall: { dealerMarginPct: 0, distributorMarginPct: 0, schemePct: 0, cashDiscountPct: 0, gstPct: 0 } },
+  generalTrade: { label: "General trade", waterfall: { dealerMarginPct: 0.12, distributorMarginPct: 0.06, schemePct: 0.04, cashDiscountPct: 0.02, gstPct: 0.18 } },
+  modernTrade: { label: "Modern trade", waterfall: { dealerMarginPct: 0.18, distributorMarginPct: 0, schemePct: 0.05, cashDiscountPct: 0, gstPct: 0.18 } },
+  online: { label: "Online marketplace", waterfall: { dealerMarginPct: 0.08, distributorMarginPct: 0, schemePct: 0.06, cashDiscountPct: 0, gstPct: 0.18 } },
+};
+
+// Walks MRP down to the company's net realisation, one deduction per step
+export function priceWaterfall(mrp: number, waterfall: PriceWaterfall) {
+  let price = mrp;
+  const steps: Array<{ label: string; amount: number; price: number }> = [];
+  const deduct = (label: string, amount: number) => {
+    price -= amount;
+    steps.push({ label, amount, price });
+  };
+  deduct("Dealer margin", price * waterfall.dealerMarginPct);
+  deduct("Distributor margin", price * waterfall.distributorMarginPct);
+  deduct("Trade schemes", price * waterfall.schemePct);
+  deduct("Cash discount", price * waterfall.cashDiscountPct);
+  deduct("GST", price - price / (1 + waterfall.gstPct));
+  return { mrp, steps, netRealisation: price };
+}
+
+export function defaultChannelWaterfalls() {
+  return Object.fromEntries(Object.entries(SALES_CHANNELS).map(([id, c]) => [id, c.waterfall])) as Record<SalesChannel, PriceWaterfall>;
+}
+
+// Net realisation per ₹1 of MRP; every step is proportional, so MRP back-solves by division
+export function netRealisationFactor(waterfall: PriceWaterfall | undefined) {
+  return waterfall ? priceWaterfall(1, waterfall).netRealisation : 1;
+}
+
+// Fixed cost pool for the plan period, held by a plant (shared by its SKUs) or by one SKU
+export interface FixedCostPool {
+  id: string;
+  name: string;
+  scope: 'plant' | 'sku';
+  target: string;  // plant id or SKU
+  amount: number;  // ₹ per plan period
+}
+
+export const FIXED_COST_POOLS: FixedCostPool[] = [
+  { id: "FC_HYD1_OVERHEAD", name: "Plant overhead", scope: "plant", target: "HYD1", amount: 12000000 },
+  { id: "FC_P100_TOOLING", name: "Tooling amortisation", scope: "sku", target: "P100", amount: 800000 },
+  { id: "FC_P100_RND", name: "R&D", scope: "sku", target: "P100", amount: 1200000 },
+  { id: "FC_P100_MKT", name: "Marketing", scope: "sku", target: "P100", amount: 1500000 },
+  { id: "FC_P200_TOOLING", name: "Tooling amortisation", scope: "sku", target: "P200", amount: 900000 },
+  { id: "FC_P200_RND", name: "R&D", scope: "sku", target: "P200", amount: 1000000 },
+  { id: "FC_P200_MKT", name: "Marketing", scope: "sku", target: "P200", amount: 1200000 },
+  { id: "FC_P300_TOOLING", name: "Tooling amortisation", scope: "sku", target: "P300", amount: 500000 },
+  { id: "FC_P300_RND", name: "R&D", scope: "sku", target: "P300", amount: 600000 },
+  { id: "FC_P300_MKT", name: "Marketing", scope: "sku", target: "P300", amount: 1000000 },
+];
+
+// Fixed costs borne by one SKU: its own pools plus its volume share of its plant's pools
+export function skuFixedCost(pools: FixedCostPool[], sku: keyof typeof PRODUCTS, volumes: Record<keyof typeof PRODUCTS, number>) {
+  const plant = PRODUCTS[sku].plant;
+  const plantVolume = (Object.keys(PRODUCTS) as Array<keyof typeof PRODUCTS>)
+    .filter(k => PRODUCTS[k].plant === plant)
+    .reduce((sum, k) => sum + (volumes[k] ?? 0), 0);
+  return pools.reduce((sum, pool) => {
+    if (pool.scope === 'sku') return pool.target === sku ? sum + pool.amount : sum;
+    if (pool.target !== plant || plantVolume <= 0) return sum;
+    return sum + pool.amount * (volumes[sku] ?? 0) / plantVolume;
+  }, 0);
+}
+
+export type OverheadModel = 'percent' | 'activity';
+
+export const OVERHEAD_MODELS: Record<OverheadModel, string> = {
+  percent: "% of direct material",
+  activity: "Activity-based",
+};
+
+// Routing and plant rates that drive labour and energy under the activity-based model
+export interface ActivityCosting {
+  routing: Operation[];
+  labourRatePerHour: number;
+  powerTariff: number;
+}
+
+export function activityCosting(sku: keyof typeof PRODUCTS, routings: Record<keyof typeof PRODUCTS, Operation[]>, plants: Record<string, Plant>): ActivityCosting {
+  const plant = plants[PRODUCTS[sku].plant];
+  return { routing: routings[sku], labourRatePerHour: plant?.labourRatePerHour ?? 0, powerTariff: plant?.powerTariff ?? 0 };
+}
+
+// Rewrite effective BOM quantities for each rule, clamping pct to its cap
+export function applySubstitutions(bom: BomLine[], rules: SubstitutionRule[], materials: Material[]): BomLine[] {
+  return rules.reduce((lines, rule) => {
+    const pct = Math.min(Math.max(rule.pct, 0), rule.maxPct);
+    const from = lines.find(l => l.materialId === rule.fromMaterialId);
+    if (!from || pct <= 0) return lines;
+
+    const movedQty = from.qty * pct;
+    const addedQty = movedQty * rule.ratio;
+    const to = lines.find(l => l.materialId === rule.toMaterialId);
+    const toUom = to?.uom ?? materials.find(m => m.id === rule.toMaterialId)?.uom ?? from.uom;
+
+    const next = lines
+      .filter(l => l.materialId !== rule.toMaterialId)
+      .map(l => l.materialId === rule.fromMaterialId ? { ...l, qty: l.qty - movedQty } : l);
+    return [...next, { materialId: rule.toMaterialId, qty: (to?.qty ?? 0) + addedQty, uom: toUom }];
+  }, bom);
+}
+
+// Converted materials are marked INR, so converting twice is harmless
+export function materialsInInr(materials: Material[], fx: FxSettings) {
+  return materials.map(m => m.currency === 'INR' ? m : { ...m, currency: 'INR' as Currency, newPrice: m.newPrice * inrRate(m.currency, fx) });
+}
+
+// Landed ₹ per UOM for an INR purchase price; recoverable GST is paid but credited back
+export function landedCostBuildUp(terms: LandedCostTerms | undefined, price: number) {
+  const bcd = price * (terms?.bcdPct ?? 0);
+  const sws = bcd * (terms?.swsPct ?? 0);
+  const clearing = terms?.clearingPerUnit ?? 0;
+  const inboundFreight = terms?.inboundFreightPerUnit ?? 0;
+  const gst = (price + bcd + sws) * (terms?.gstPct ?? 0);
+  const gstCredit = terms?.gstRecoverable ? gst : 0;
+  return {
+    price,
+    bcd,
+    sws,
+    clearing,
+    inboundFreight,
+    gst,
+    gstCredit,
+    landedPrice: price + bcd + sws + clearing + inboundFreight + gst - gstCredit,
+  };
+}
+
+// Folds landed terms into newPrice and drops them, so applying twice is harmless
+export function applyLandedCost(materials: Material[]) {
+  return materials.map(m => m.landed ? { ...m, newPrice: landedCostBuildUp(m.landed, m.newPrice).landedPrice, landed: undefined } : m);
+}
+
+// Material issued per unit of BOM quantity, so that (1 - lossPct) of it ends up in the product
+export function scrapGrossUp(m: Material) {
+  return 1 / (1 - Math.min(Math.max(m.scrap?.lossPct ?? 0, 0), 0.95));
+}
+
+// Scrap quantity and resale credit for a quantity of material issued
+export function scrapOnIssue(m: Material, issuedQty: number) {
+  const scrapQty = issuedQty * (1 - 1 / scrapGrossUp(m));
+  return { scrapQty, credit: scrapQty * (m.scrap?.recoveryPct ?? 0) * (m.scrap?.price ?? 0) };
+}
+
+export interface ProcurementPlan {
+  id: string;
+  name: string;
+  uom: string;
+  grossReq: number;       // issue quantity, grossed up for process loss
+  scrapQty: number;       // of which lost in process
+  scrapCredit: number;    // ₹ from selling the recovered scrap
+  onHand: number;
+  netReq: number;         // requirement after on-hand, before MOQ and pack rounding
+  procureQty: number;
+  oldCost: number;
+  newPrice: number;
+  sourcing?: SourcingPlan;
+  purchasePrice: number;  // landed price actually paid, after hedge cover and duties
+  spend: number;
+  endQty: number;
+  avgCost: number;
+  bomQty: number;
+  ppv: number;
+}
+
+export type ValuationMethod = 'movingAverage' | 'fifo' | 'standard';
+
+export const VALUATION_METHODS: Record<ValuationMethod, string> = {
+  movingAverage: "Moving Average",
+  fifo: "FIFO",
+  standard: "Standard Cost",
+};
+
+// Unit cost of a material issued to production under each valuation method
+export function valuedUnitCost(method: ValuationMethod, m: Material, grossReq: number, procureQty: number) {
+  if (method === 'standard') return m.stdCost;
+  if (method === 'fifo') {
+    // Existing stock at oldCost is consumed first, the remainder at newPrice
+    if (grossReq <= 0) return m.onHand > 0 ? m.oldCost : m.newPrice;
+    const fromStock = Math.min(m.onHand, grossReq);
+    return (fromStock * m.oldCost + (grossReq - fromStock) * m.newPrice) / grossReq;
+  }
+  const endQty = m.onHand + procureQty;
+  return endQty > 0 ? ((m.onHand * m.oldCost + procureQty * m.newPrice) / endQty) : m.newPrice;
+}
+
+// Overheads, margin and recommended SP on top of a direct material cost per unit
+export function applyOverheads({
+  directMaterialCost,
+  listPrice,
+  targetMargin,
+  laborPct,
+  energyPct,
+  freight,
+  warrantyPct,
+  purchasePriceVariance = 0,
+  scrapLoss = 0,
+  scrapCredit = 0,
+  activity,
+  fixedCostPerUnit = 0,
+  channel,
+}: {
+  directMaterialCost: number;
+  listPrice: number;  // MRP when a channel is given
+  targetMargin: number;
+  laborPct: number;
+  energyPct: number;
+  freight: number;
+  warrantyPct: number;
+  purchasePriceVariance?: number;
+  scrapLoss?: number;    // material lost in process, per unit
+  scrapCredit?: number;  // scrap resale, per unit
+  activity?: ActivityCosting;  // when given, labour and energy come from the routing instead of % of DM
+  fixedCostPerUnit?: number;   // fixed cost pools absorbed over volume
+  channel?: PriceWaterfall;    // margin and recommended SP are on net realisation through this channel
+}) {
+  const operations = (activity?.routing ?? []).map(op => ({
+    ...op,
+    labor: op.stdMinutes / 60 * (activity?.labourRatePerHour ?? 0),
+    energy: op.kwh * (activity?.powerTariff ?? 0),
+  }));
+  const labor = activity ? operations.reduce((sum, op) => sum + op.labor, 0) : directMaterialCost * laborPct;
+  const energy = activity ? operations.reduce((sum, op) => sum + op.energy, 0) : directMaterialCost * energyPct;
+  const channelFactor = netRealisationFactor(channel);
+  const netRealisation = listPrice * channelFactor;
+  const warranty = netRealisation * warrantyPct;
+
+  const variableCost = directMaterialCost + scrapLoss - scrapCredit + purchasePriceVariance + labor + energy + freight + warranty;
+  const totalCost = variableCost + fixedCostPerUnit;
+  const marginInr = netRealisation - totalCost;
+  const marginPct = netRealisation > 0 ? marginInr / netRealisation : 0;
+  const recommendedSP = (1 - targetMargin) > 0 ? (totalCost / (1 - targetMargin)) : totalCost;
+  // MRP the channel must carry for the company to realise recommendedSP; warranty stays at today's cost
+  const recommendedMrp = channelFactor > 0 ? recommendedSP / channelFactor : Infinity;
+
+  return {
+    directMaterialCost,
+    scrapLoss,
+    scrapCredit,
+    purchasePriceVariance,
+    labor,
+    energy,
+    operations,
+    overheadModel: (activity ? 'activity' : 'percent') as OverheadModel,
+    freight,
+    warranty,
+    variableCost,
+    fixedCost: fixedCostPerUnit,
+    totalCost,
+    listPrice,
+    netRealisation,
+    marginInr,
+    marginPct,
+    targetMargin,
+    recommendedSP,
+    recommendedMrp
+  };
+}
+
+// Purchases already locked in by executed hedges, per material
+export interface HedgeCover {
+  qty: number;
+  price: number;
+}
+
+/**
+ * Buys a net requirement: hedged volume at its locked-in cost, the rest sourced
+ * from the supplier master (rounded to MOQ and pack) or at newPrice if the
+ * material has no suppliers. basePrice is the blended ₹/UOM before duties.
+ */
+export function purchaseRequirement(m: Material, netReq: number, cover: HedgeCover | undefined, suppliers: Supplier[], fx: FxSettings) {
+  const coveredQty = Math.min(netReq, cover?.qty ?? 0);
+  const sourcing = sourceRequirement(suppliers.filter(s => s.materialId === m.id), netReq - coveredQty, fx, m.leadTimeMonths, m.newPrice);
+  const openQty = sourcing?.qty ?? netReq - coveredQty;
+  const openPrice = sourcing?.avgPrice ?? m.newPrice;
+  const procureQty = coveredQty + openQty;
+  const basePrice = coveredQty > 0 ? (coveredQty * cover!.price + openQty * openPrice) / procureQty : openPrice;
+  return { sourcing, procureQty, basePrice };
+}
+
+export interface CostInputs {
+  sku: keyof typeof PRODUCTS;
+  forecastUnits: number;
+  materials: Material[];
+  bom: BomLine[];
+  listPriceOverride?: number;
+  targetMarginOverride?: number;
+  laborPct: number;
+  energyPct: number;
+  freight: number;
+  warrantyPct: number;
+  valuationMethod?: ValuationMethod;
+  hedgeCover?: Record<string, HedgeCover>;
+  fx?: FxSettings;
+  suppliers?: Supplier[];
+  activity?: ActivityCosting;
+  fixedCosts?: number;  // ₹ per plan period borne by this SKU, absorbed over forecastUnits
+  channel?: PriceWaterfall;
+}
+
+export function computeCostsWithInventory({
+  sku,
+  forecastUnits,
+  materials: quotedMaterials,
+  bom,
+  listPriceOverride,
+  targetMarginOverride,
+  laborPct,
+  energyPct,
+  freight,
+  warrantyPct,
+  valuationMethod = 'movingAverage',
+  hedgeCover = {},
+  fx = DEFAULT_FX,
+  suppliers = [],
+  activity,
+  fixedCosts = 0,
+  channel,
+}: CostInputs) {
+  const product = PRODUCTS[sku];
+  const materials = materialsInInr(quotedMaterials, fx);
+  const listPrice = listPriceOverride ?? product.listPrice;
+  const targetMargin = targetMarginOverride ?? product.targetMargin;
+
+  // Calculate procurement plan, valuing issues by the selected method
+  // Materials not on the SKU's BOM get a zero quantity
+  const procurementPlan: ProcurementPlan[] = materials.map(m => {
+    const bomQty = bom.find(l => l.materialId === m.id)?.qty ?? 0;
+    const grossReq = bomQty * forecastUnits * scrapGrossUp(m);
+    const { scrapQty, credit: scrapCredit } = scrapOnIssue(m, grossReq);
+    const onHand = m.onHand;
+    const netReq = Math.max(0, grossReq - onHand);
+    // Duties land on both the hedged and the sourced volume
+    const { sourcing, procureQty, basePrice } = purchaseRequirement(m, netReq, hedgeCover[m.id], suppliers, fx);
+    const purchasePrice = landedCostBuildUp(m.landed, basePrice).landedPrice;
+    const spend = procureQty * purchasePrice;
+    const endQty = onHand + procureQty;
+    const avgCost = valuedUnitCost(valuationMethod, { ...m, newPrice: purchasePrice }, grossReq, procureQty);
+    // Under standard cost, purchases away from standard post a variance
+    const ppv = valuationMethod === 'standard' ? procureQty * (purchasePrice - m.stdCost) : 0;
+
+    return {
+      id: m.id,
+      name: m.name,
+      uom: m.uom,
+      grossReq,
+      scrapQty,
+      scrapCredit,
+      onHand,
+      netReq,
+      procureQty,
+      oldCost: m.oldCost,
+      newPrice: m.newPrice,
+      sourcing,
+      purchasePrice,
+      spend,
+      endQty,
+      avgCost,
+      bomQty,
+      ppv
+    };
+  });
+
+  // Calculate direct material cost per unit using the valued costs; process loss is costed separately
+  const directMaterialCost = procurementPlan.reduce((sum, p) => sum + (p.bomQty * p.avgCost), 0);
+  const totalPpv = procurementPlan.reduce((sum, p) => sum + p.ppv, 0);
+  const perUnit = (total: number) => forecastUnits > 0 ? total / forecastUnits : 0;
+  const purchasePriceVariance = perUnit(totalPpv);
+  const scrapLoss = perUnit(procurementPlan.reduce((sum, p) => sum + p.scrapQty * p.avgCost, 0));
+  const scrapCredit = perUnit(procurementPlan.reduce((sum, p) => sum + p.scrapCredit, 0));
+
+  return {
+    procurementPlan,
+    valuationMethod,
+    fixedCosts,
+    ...applyOverheads({ directMaterialCost, listPrice, targetMargin, laborPct, energyPct, freight, warrantyPct, purchasePriceVariance, scrapLoss, scrapCredit, activity, fixedCostPerUnit: perUnit(fixedCosts), channel })
+  };
+}
+
+// Break-even against the contribution per unit at the forecast volume
+export function breakEven(result: CostResult, forecastUnits: number) {
+  const contribution = result.netRealisation - result.variableCost;
+  const units = contribution > 0 ? result.fixedCosts / contribution : Infinity;
+  return {
+    contribution,
+    units,
+    revenue: units * result.netRealisation,
+    marginOfSafety: forecastUnits > 0 ? (forecastUnits - units) / forecastUnits : 0,
+  };
+}
+
+// Revenue, total cost and profit across a volume range; each point is re-costed, fixed costs stay fixed
+export function cvpCurve(inputs: CostInputs, maxUnits: number, steps = 20) {
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const units = Math.round(maxUnits * i / steps);
+    const r = computeCostsWithInventory({ ...inputs, forecastUnits: units });
+    const revenue = r.netRealisation * units;
+    const totalCost = r.variableCost * units + r.fixedCosts;
+    return { units, revenue, totalCost, profit: revenue - totalCost };
+  });
+}
+
+export type CostResult = ReturnType<typeof computeCostsWithInventory>;
@@ -0,0 +1,27 @@
+// Currencies materials can be quoted in; the cost engine works in INR
+export type Currency = 'INR' | 'USD' | 'CNY' | 'EUR';
+
+export const CURRENCIES: Record<Currency, { label: string; locale: string }> = {
+  INR: { label: "Indian Rupee", locale: "en-IN" },
+  USD: { label: "US Dollar", locale: "en-US" },
+  CNY: { label: "Chinese Yuan", locale: "zh-CN" },
+  EUR: { label: "Euro", locale: "de-DE" },
+};
+
+export interface FxSettings {
+  rates: Record<Currency, number>;  // INR per unit of currency
+  shockPct: number;                 // rupee depreciation applied to every non-INR rate
+}
+
+export const DEFAULT_FX: FxSettings = {
+  rates: { INR: 1, USD: 88, CNY: 12.3, EUR: 102 },
+  shockPct: 0,
+};
+
+export function inrRate(currency: Currency, fx: FxSettings) {
+  return currency === 'INR' ? 1 : fx.rates[currency] * (1 + fx.shockPct);
+}
+
+export function formatMoney(n: number, currency: Currency) {
+  return n.toLocaleString(CURRENCIES[currency].locale, { style: "currency", currency, maximumFractionDigits: currency === 'INR' ? 0 : 2 });
+}
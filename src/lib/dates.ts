@@ -0,0 +1,39 @@
+export function toIsoDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// "2026-09" -> "Sep 2026"
+export function formatMonth(isoMonth: string) {
+  const [year, month] = isoMonth.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en', { month: 'short', year: 'numeric' });
+}
+
+// "2026-09" plus n months, in the same YYYY-MM form
+export function addMonths(isoMonth: string, n: number) {
+  const [year, month] = isoMonth.split('-').map(Number);
+  const date = new Date(year, month - 1 + n, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// "2026-11-30" plus n months, with the day clamped to the target month's end ("2027-02-28")
+export function addMonthsToDate(isoDate: string, n: number) {
+  const month = addMonths(isoDate.slice(0, 7), n);
+  const [year, monthIndex] = month.split('-').map(Number);
+  const day = Math.min(Number(isoDate.slice(8, 10)), new Date(year, monthIndex, 0).getDate());
+  return `${month}-${String(day).padStart(2, '0')}`;
+}
+
+// Imported date cell -> "YYYY-MM-DD", or undefined if unreadable. ISO strings are split by hand:
+// new Date("2026-09-15") parses as UTC midnight and reads back as the 14th west of Greenwich.
+export function parseDateValue(value: unknown) {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : toIsoDate(value);
+  const text = String(value ?? "").trim();
+  const iso = /^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/.exec(text);
+  const date = iso
+    ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3] ?? 1))
+    : new Date(text);
+  if (Number.isNaN(date.getTime()) || !text) return undefined;
+  // Reject overflowing ISO parts such as 2026-02-30 rather than rolling into March
+  if (iso && (date.getMonth() !== Number(iso[2]) - 1 || date.getDate() !== Number(iso[3] ?? 1))) return undefined;
+  return toIsoDate(date);
+}
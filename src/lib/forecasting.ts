@@ -0,0 +1,174 @@
+import { createRandom, gaussian, percentile } from "./stats";
+
+export type ForecastModel = 'holtWinters' | 'arima' | 'drift';
+
+export const FORECAST_MODELS: Record<ForecastModel, string> = {
+  holtWinters: "Holt-Winters",
+  arima: "ARIMA(1,1,0)",
+  drift: "Random Walk + Drift",
+};
+
+/**
+ * A forecasting model in state-space form: `predict` gives the one-step
+ * forecast from a state and `update` folds in the observed value. Fitting,
+ * point forecasts and simulated paths all run through these two functions.
+ */
+interface StateModel<S> {
+  state: S;
+  predict: (state: S) => number;
+  update: (state: S, observed: number) => S;
+  sigma: number;
+}
+
+function residualSigma(errors: number[]) {
+  if (errors.length < 2) return 0;
+  return Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / (errors.length - 1));
+}
+
+// Runs the model over the series; returns the final state and one-step errors
+function filterSeries<S>(model: Omit<StateModel<S>, 'sigma'>, series: number[]) {
+  let state = model.state;
+  const errors: number[] = [];
+  series.forEach(y => {
+    errors.push(y - model.predict(state));
+    state = model.update(state, y);
+  });
+  return { state, errors };
+}
+
+function fitDrift(series: number[]): StateModel<number> {
+  const n = series.length;
+  const drift = n > 1 ? (series[n - 1] - series[0]) / (n - 1) : 0;
+  const model = { state: series[0], predict: (last: number) => last + drift, update: (_: number, y: number) => y };
+  const { state, errors } = filterSeries(model, series.slice(1));
+  return { ...model, state, sigma: residualSigma(errors) };
+}
+
+// ARIMA(1,1,0) with constant: first differences follow an AR(1), fitted by OLS
+function fitArima(series: number[]): StateModel<{ last: number; lastDiff: number }> {
+  const diffs = series.slice(1).map((y, i) => y - series[i]);
+  const x = diffs.slice(0, -1);
+  const y = diffs.slice(1);
+  const meanX = x.reduce((sum, v) => sum + v, 0) / (x.length || 1);
+  const meanY = y.reduce((sum, v) => sum + v, 0) / (y.length || 1);
+  const sxx = x.reduce((sum, v) => sum + (v - meanX) ** 2, 0);
+  const sxy = x.reduce((sum, v, i) => sum + (v - meanX) * (y[i] - meanY), 0);
+  const phi = sxx > 0 ? Math.min(0.99, Math.max(-0.99, sxy / sxx)) : 0;
+  const constant = meanY - phi * meanX;
+
+  const model = {
+    state: { last: series[1] ?? series[0], lastDiff: diffs[0] ?? 0 },
+    predict: (s: { last: number; lastDiff: number }) => s.last + constant + phi * s.lastDiff,
+    update: (s: { last: number; lastDiff: number }, observed: number) => ({ last: observed, lastDiff: observed - s.last }),
+  };
+  const { state, errors } = filterSeries(model, series.slice(2));
+  return { ...model, state, sigma: residualSigma(errors) };
+}
+
+interface HoltWintersState { level: number; trend: number; seasonal: number[]; t: number }
+
+// Additive Holt-Winters; drops to Holt's linear trend with fewer than two full seasons
+function fitHoltWinters(series: number[], seasonLength = 12): StateModel<HoltWintersState> {
+  const m = series.length >= 2 * seasonLength ? seasonLength : 0;
+  const seasonMean = (from: number) => series.slice(from, from + m).reduce((sum, v) => sum + v, 0) / m;
+  const init: HoltWintersState = m > 0
+    ? {
+        level: seasonMean(0),
+        trend: (seasonMean(m) - seasonMean(0)) / m,
+        seasonal: series.slice(0, m).map(v => v - seasonMean(0)),
+        t: 0
+      }
+    : { level: series[0], trend: (series[1] ?? series[0]) - series[0], seasonal: [], t: 0 };
+
+  const build = (alpha: number, beta: number, gamma: number) => ({
+    state: init,
+    predict: (s: HoltWintersState) => s.level + s.trend + (m > 0 ? s.seasonal[s.t % m] : 0),
+    update: (s: HoltWintersState, observed: number) => {
+      const error = observed - (s.level + s.trend + (m > 0 ? s.seasonal[s.t % m] : 0));
+      const seasonal = m > 0 ? s.seasonal.map((v, i) => i === s.t % m ? v + gamma * error : v) : s.seasonal;
+      return { level: s.level + s.trend + alpha * error, trend: s.trend + beta * error, seasonal, t: s.t + 1 };
+    },
+  });
+
+  // Grid search on one-step squared error
+  let best = { sse: Infinity, alpha: 0.5, beta: 0, gamma: 0 };
+  [0.1, 0.2, 0.3, 0.5, 0.7, 0.9].forEach(alpha => {
+    [0, 0.02, 0.05, 0.1, 0.2].forEach(beta => {
+      (m > 0 ? [0, 0.1, 0.3] : [0]).forEach(gamma => {
+        const { errors } = filterSeries(build(alpha, beta, gamma), series);
+        const sse = errors.slice(1).reduce((sum, e) => sum + e * e, 0);
+        if (sse < best.sse) best = { sse, alpha, beta, gamma };
+      });
+    });
+  });
+
+  const model = build(best.alpha, best.beta, best.gamma);
+  const { state, errors } = filterSeries(model, series);
+  return { ...model, state, sigma: residualSigma(errors.slice(1)) };
+}
+
+export function fitForecastModel(model: ForecastModel, series: number[]): StateModel<unknown> {
+  if (model === 'holtWinters') return fitHoltWinters(series) as StateModel<unknown>;
+  if (model === 'arima') return fitArima(series) as StateModel<unknown>;
+  return fitDrift(series) as StateModel<unknown>;
+}
+
+export function pointForecast<S>(model: StateModel<S>, horizon: number) {
+  let state = model.state;
+  return Array.from({ length: horizon }, () => {
+    const y = model.predict(state);
+    state = model.update(state, y);
+    return y;
+  });
+}
+
+/**
+ * Point forecast plus prediction intervals from simulated future paths
+ * (Gaussian innovations at the residual sigma). Same seed, same bands.
+ */
+export function forecastSeries(series: number[], { model, horizon, seed, level, paths = 2000 }: {
+  model: ForecastModel;
+  horizon: number;
+  seed: number;
+  level: number;
+  paths?: number;
+}) {
+  const fitted = fitForecastModel(model, series);
+  const random = createRandom(seed);
+  const simulated: number[][] = Array.from({ length: horizon }, () => []);
+
+  for (let p = 0; p < paths; p++) {
+    let state = fitted.state;
+    for (let h = 0; h < horizon; h++) {
+      const y = fitted.predict(state) + fitted.sigma * gaussian(random);
+      simulated[h].push(y);
+      state = fitted.update(state, y);
+    }
+  }
+
+  const tail = (1 - level) / 2;
+  const point = pointForecast(fitted, horizon);
+  return point.map((value, h) => {
+    const sorted = simulated[h].sort((a, b) => a - b);
+    return { point: value, lower: percentile(sorted, tail), upper: percentile(sorted, 1 - tail) };
+  });
+}
+
+// Holdout backtest: fit on all but the last `holdout` points, score the forecast
+export function backtestForecast(series: number[], model: ForecastModel, holdout: number) {
+  const cut = series.length - holdout;
+  if (holdout < 1 || cut < 3) return { mape: NaN, rmse: NaN };
+  const forecast = pointForecast(fitForecastModel(model, series.slice(0, cut)), holdout);
+  const actual = series.slice(cut);
+  const mape = actual.reduce((sum, y, i) => sum + Math.abs((y - forecast[i]) / y), 0) / holdout;
+  const rmse = Math.sqrt(actual.reduce((sum, y, i) => sum + (y - forecast[i]) ** 2, 0) / holdout);
+  return { mape, rmse };
+}
+
+export interface PricePrediction {
+  month: string;
+  period: string;
+  predictedPrice: number;
+  lower: number;
+  upper: number;
+}
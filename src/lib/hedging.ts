@@ -0,0 +1,486 @@
+import * as XLSX from "xlsx";
+import { CostResult, HedgeCover, ProcurementPlan } from "./costing";
+import { addMonths, parseDateValue, toIsoDate } from "./dates";
+import { fitForecastModel, ForecastModel, pointForecast, PricePrediction } from "./forecasting";
+import { normaliseHeader } from "./importExport";
+import { Material } from "./masterData";
+import { PricePoint, queryPriceHistory } from "./priceHistory";
+import { newId } from "./utils";
+
+// Hedging instruments
+export type HedgeInstrumentType = 'future' | 'forward' | 'call' | 'collar';
+
+export const HEDGE_INSTRUMENTS: Record<HedgeInstrumentType, string> = {
+  future: "MCX Futures",
+  forward: "Forward",
+  call: "Call Option",
+  collar: "Zero-cost Collar",
+};
+
+export interface HedgeInstrument {
+  type: HedgeInstrumentType;
+  strike: number;          // ₹/UOM: futures/forward price, call strike or collar cap
+  floorStrike: number;     // ₹/UOM: collar only, strike of the put sold
+  premium: number;         // ₹/UOM: forward premium, call premium paid or collar net premium
+  lotSize: number;         // UOM per contract
+  expiry: string;          // YYYY-MM, requirement after expiry is bought at spot
+  settlement: 'cash' | 'physical';
+}
+
+export const DEFAULT_HEDGE_INSTRUMENT: HedgeInstrument = {
+  type: 'future',
+  strike: 880,
+  floorStrike: 800,
+  premium: 0,
+  lotSize: 2500,
+  expiry: addMonths(toIsoDate(new Date()).slice(0, 7), 3),
+  settlement: 'cash',
+};
+
+export interface HedgingStrategy {
+  spotPercentage: number;
+  hedgedPercentage: number;
+  instrument: HedgeInstrument;
+}
+
+// Effective ₹/UOM paid for the hedged volume when the market settles at `spot`.
+// Cash and physical settlement land on the same cost; they differ only in delivery.
+export function hedgedPrice(instrument: HedgeInstrument, spot: number) {
+  switch (instrument.type) {
+    case 'future':
+      return instrument.strike;
+    case 'forward':
+      return instrument.strike + instrument.premium;
+    case 'call':
+      return Math.min(spot, instrument.strike) + instrument.premium;
+    case 'collar':
+      return Math.min(Math.max(spot, instrument.floorStrike), instrument.strike) + instrument.premium;
+  }
+}
+
+// Contracts trade in whole lots: round the target, never over-hedge the exposure
+export function hedgeLots(exposureQty: number, hedgedPercentage: number, lotSize: number) {
+  if (exposureQty <= 0 || lotSize <= 0) return { lots: 0, hedgedQty: 0, hedgeRatio: 0 };
+  const lots = Math.min(
+    Math.round((exposureQty * hedgedPercentage) / 100 / lotSize),
+    Math.floor(exposureQty / lotSize)
+  );
+  const hedgedQty = lots * lotSize;
+  return { lots, hedgedQty, hedgeRatio: hedgedQty / exposureQty };
+}
+
+/**
+ * Blended ₹/UOM over a monthly price path, with the exposure drawn evenly across
+ * the months. Months after the instrument's expiry are bought entirely at spot.
+ */
+function evaluateHedgePath(strategy: HedgingStrategy, exposureQty: number, path: Array<{ period: string; price: number }>) {
+  const { hedgeRatio } = hedgeLots(exposureQty, strategy.hedgedPercentage, strategy.instrument.lotSize);
+  const months = path.map(p => {
+    const ratio = p.period <= strategy.instrument.expiry ? hedgeRatio : 0;
+    return { ...p, effectivePrice: ratio * hedgedPrice(strategy.instrument, p.price) + (1 - ratio) * p.price };
+  });
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const effectivePrice = mean(months.map(m => m.effectivePrice));
+  const spotPrice = mean(months.map(m => m.price));
+  return { months, effectivePrice, spotPrice, hedgePnl: (spotPrice - effectivePrice) * exposureQty };
+}
+
+// Contract lot sizes (KG): MCX copper and aluminium; CRGO and solder are covered by supplier forwards
+const HEDGE_LOT_SIZES: Record<string, number> = {
+  M_COPPER: 2500,
+  M_ALUM: 5000,
+  M_STEEL_LAM: 5000,
+  M_SOLDER: 100,
+};
+
+// Unhedged by default, with a futures contract struck at today's price ready to switch on
+export function defaultHedgingStrategy(material: Material): HedgingStrategy {
+  return {
+    spotPercentage: 100,
+    hedgedPercentage: 0,
+    instrument: {
+      ...DEFAULT_HEDGE_INSTRUMENT,
+      strike: material.newPrice,
+      floorStrike: Math.round(material.newPrice * 0.9),
+      lotSize: HEDGE_LOT_SIZES[material.id] ?? 1000,
+    },
+  };
+}
+
+// The month after the last observation, i.e. the month today's price belongs to
+export function nextPeriod(history: Array<{ month: string }>) {
+  const last = history[history.length - 1]?.month;
+  return last ? addMonths(last, 1) : toIsoDate(new Date()).slice(0, 7);
+}
+
+// Monthly average price per material from the price history store
+export function monthlyPriceSeries(points: PricePoint[], materialIds: string[]) {
+  const rows = queryPriceHistory(points, { materialIds, interval: 'month' });
+  return Object.fromEntries(materialIds.map(id => [
+    id,
+    rows.filter(row => row[id] !== undefined).map(row => ({ month: String(row.period), price: Number(row[id]) })),
+  ])) as Record<string, Array<{ month: string; price: number }>>;
+}
+
+// Price paths to test a hedge against: flat at today's price, and the forecast with its interval bands
+function hedgePricePaths(predictions: PricePrediction[], currentMonth: string, currentPrice: number) {
+  const flat = { id: 'flat', label: 'Flat (current price)', path: [{ period: currentMonth, price: currentPrice }] };
+  if (predictions.length === 0) return [flat];
+  return [
+    flat,
+    { id: 'point', label: 'Forecast', path: predictions.map(p => ({ period: p.period, price: p.predictedPrice })) },
+    { id: 'lower', label: 'Lower band', path: predictions.map(p => ({ period: p.period, price: p.lower })) },
+    { id: 'upper', label: 'Upper band', path: predictions.map(p => ({ period: p.period, price: p.upper })) },
+  ];
+}
+
+interface MaterialHedgeInputs {
+  currentMonth: string;
+  currentPrice: number;
+  avgCost: number;
+  bomQty: number;
+  exposureQty: number;
+}
+
+/**
+ * Material cost per unit under each price path, hedged and unhedged, as a
+ * difference against the avg cost the cost engine already charges.
+ */
+export function evaluateMaterialHedge(strategy: HedgingStrategy, predictions: PricePrediction[], inputs: MaterialHedgeInputs) {
+  return hedgePricePaths(predictions, inputs.currentMonth, inputs.currentPrice).map(({ id, label, path }) => {
+    const evaluation = evaluateHedgePath(strategy, inputs.exposureQty, path);
+    return {
+      id,
+      label,
+      ...evaluation,
+      costPerUnit: inputs.bomQty * evaluation.effectivePrice,
+      costDifference: inputs.bomQty * (evaluation.effectivePrice - inputs.avgCost),
+      unhedgedCostDifference: inputs.bomQty * (evaluation.spotPrice - inputs.avgCost),
+    };
+  });
+}
+
+type MaterialHedgeResult = ReturnType<typeof evaluateMaterialHedge>[number];
+
+// The forecast path when one has been run, otherwise today's price
+export function headlineHedgePath<T extends MaterialHedgeResult>(results: T[]) {
+  return results.find(r => r.id === 'point') ?? results[0];
+}
+
+/**
+ * Planned hedges as cover on top of the hedge book: each strategy hedges its
+ * share of the purchase requirement the book leaves open, in whole lots, at
+ * the instrument's price against today's spot (the price the unhedged volume
+ * is bought at). Strategies whose instrument expires before asOf cover nothing.
+ */
+export function strategyHedgeCover(hedges: Record<string, HedgingStrategy>, materials: Material[], procurementPlan: ProcurementPlan[], bookCover: Record<string, HedgeCover>, asOf: string) {
+  const cover = { ...bookCover };
+  Object.entries(hedges).forEach(([id, strategy]) => {
+    const material = materials.find(m => m.id === id);
+    const plan = procurementPlan.find(p => p.id === id);
+    if (!material || !plan || plan.bomQty <= 0 || strategy.instrument.expiry < asOf.slice(0, 7)) return;
+    const openQty = Math.max(0, plan.procureQty - (bookCover[id]?.qty ?? 0));
+    const { hedgedQty } = hedgeLots(openQty, strategy.hedgedPercentage, strategy.instrument.lotSize);
+    if (hedgedQty <= 0) return;
+    const price = hedgedPrice(strategy.instrument, material.newPrice);
+    const prev = cover[id] ?? { qty: 0, price: 0 };
+    const qty = prev.qty + hedgedQty;
+    cover[id] = { qty, price: (prev.qty * prev.price + hedgedQty * price) / qty };
+  });
+  return cover;
+}
+
+interface HedgePortfolioInputs {
+  hedges: Record<string, HedgingStrategy>;
+  bookCover: Record<string, HedgeCover>;
+  cover: Record<string, HedgeCover>;
+  unhedged: CostResult;  // costed with the hedge book only
+  hedged: CostResult;    // costed with the planned hedges as well
+}
+
+// Combined effect of every planned hedge on the unit cost and margin of the whole BOM, as costed by the engine
+export function summariseHedges({ hedges, bookCover, cover, unhedged, hedged }: HedgePortfolioInputs) {
+  const lines = Object.keys(hedges).flatMap(id => {
+    const before = unhedged.procurementPlan.find(p => p.id === id);
+    const after = hedged.procurementPlan.find(p => p.id === id);
+    if (!before || !after || before.bomQty <= 0) return [];
+    const openQty = Math.max(0, before.procureQty - (bookCover[id]?.qty ?? 0));
+    const hedgedQty = (cover[id]?.qty ?? 0) - (bookCover[id]?.qty ?? 0);
+    return [{
+      id,
+      name: before.name,
+      uom: before.uom,
+      hedgeRatio: openQty > 0 ? hedgedQty / openQty : 0,
+      avgCost: before.avgCost,
+      hedgedAvgCost: after.avgCost,
+      purchasePrice: after.purchasePrice,
+      costDifference: after.bomQty * (after.avgCost - before.avgCost),
+      hedgePnl: before.spend - after.spend,
+    }];
+  });
+  return {
+    lines,
+    costDifference: hedged.totalCost - unhedged.totalCost,
+    totalCost: unhedged.totalCost,
+    hedgedTotalCost: hedged.totalCost,
+    marginPct: unhedged.marginPct * 100,
+    hedgedMarginPct: hedged.marginPct * 100,
+  };
+}
+
+export type HedgeSummary = ReturnType<typeof summariseHedges>;
+
+// Auto-recommendation: hedge more the further the forecast drifts from today's price
+export function recommendedHedgePercentage(avgForecastPrice: number, currentPrice: number) {
+  const priceVolatility = Math.abs(avgForecastPrice - currentPrice) / currentPrice;
+  return Math.min(80, Math.max(20, priceVolatility * 200));
+}
+
+// Hedge effectiveness backtest
+export type HedgePolicy = 'fixed' | 'auto';
+
+export const HEDGE_POLICIES: Record<HedgePolicy, string> = {
+  fixed: "Fixed Hedge %",
+  auto: "Auto-recommendation",
+};
+
+// Months of history the auto policy fits on before its first decision
+export const HEDGE_BACKTEST_WARMUP = 12;
+
+interface HedgeBacktestSettings {
+  policy: HedgePolicy;
+  hedgedPercentage: number;  // fixed policy only
+  tenorMonths: number;       // months between placing a hedge and the purchase it covers
+  model: ForecastModel;      // auto policy only
+}
+
+interface HedgeBacktestContext {
+  instrument: HedgeInstrument;
+  currentPrice: number;
+  exposureQty: number;
+  bomQty: number;
+  otherCost: number;         // unit cost excluding this material
+  listPrice: number;
+}
+
+/**
+ * Replays a monthly price history: each month's purchase is hedged `tenorMonths`
+ * earlier at the policy's hedge %, with the instrument re-struck at that month's
+ * price keeping its configured moneyness. Both policies start after the same
+ * warm-up so fixed and auto runs cover identical months.
+ */
+export function backtestHedgePolicy(history: Array<{ month: string; price: number }>, settings: HedgeBacktestSettings, context: HedgeBacktestContext) {
+  const tenor = Math.max(1, Math.round(settings.tenorMonths));
+  const prices = history.map(h => h.price);
+  const marginOf = (cost: number) => context.listPrice > 0 ? ((context.listPrice - context.otherCost - cost) / context.listPrice) * 100 : 0;
+
+  const months = history.slice(HEDGE_BACKTEST_WARMUP + tenor - 1).map(({ month, price: spot }, i) => {
+    const decision = HEDGE_BACKTEST_WARMUP - 1 + i;
+    const decisionPrice = prices[decision];
+    const hedgedPercentage = settings.policy === 'fixed'
+      ? settings.hedgedPercentage
+      : Math.round(recommendedHedgePercentage(
+          pointForecast(fitForecastModel(settings.model, prices.slice(0, decision + 1)), tenor).reduce((a, b) => a + b, 0) / tenor,
+          decisionPrice
+        ));
+    const { hedgeRatio } = hedgeLots(context.exposureQty, hedgedPercentage, context.instrument.lotSize);
+    const moneyness = context.currentPrice > 0 ? decisionPrice / context.currentPrice : 1;
+    const struck = {
+      ...context.instrument,
+      strike: context.instrument.strike * moneyness,
+      floorStrike: context.instrument.floorStrike * moneyness,
+    };
+    const effectivePrice = hedgeRatio * hedgedPrice(struck, spot) + (1 - hedgeRatio) * spot;
+    const costPerUnit = context.bomQty * effectivePrice;
+    const unhedgedCostPerUnit = context.bomQty * spot;
+    return {
+      month,
+      spot,
+      hedgedPercentage,
+      hedgeRatio,
+      effectivePrice,
+      costPerUnit,
+      unhedgedCostPerUnit,
+      marginPct: marginOf(costPerUnit),
+      unhedgedMarginPct: marginOf(unhedgedCostPerUnit),
+      hedgePnl: unhedgedCostPerUnit - costPerUnit,
+    };
+  });
+
+  const stats = (cost: (m: typeof months[number]) => number, margin: (m: typeof months[number]) => number) => {
+    const margins = months.map(margin);
+    const avgMarginPct = margins.reduce((a, b) => a + b, 0) / (margins.length || 1);
+    const worst = months.reduce<typeof months[number] | undefined>((w, m) => !w || margin(m) < margin(w) ? m : w, undefined);
+    return {
+      avgCostPerUnit: months.reduce((sum, m) => sum + cost(m), 0) / (months.length || 1),
+      avgMarginPct,
+      marginVolatility: Math.sqrt(margins.reduce((sum, v) => sum + (v - avgMarginPct) ** 2, 0) / (margins.length || 1)),
+      worstMonth: worst?.month,
+      worstMarginPct: worst ? margin(worst) : 0,
+    };
+  };
+
+  return {
+    months,
+    hedged: stats(m => m.costPerUnit, m => m.marginPct),
+    unhedged: stats(m => m.unhedgedCostPerUnit, m => m.unhedgedMarginPct),
+    avgHedgedPercentage: months.reduce((sum, m) => sum + m.hedgedPercentage, 0) / (months.length || 1),
+    totalHedgePnl: months.reduce((sum, m) => sum + m.hedgePnl, 0),
+  };
+}
+
+// Hedge book: executed positions, persisted to localStorage
+const HEDGE_BOOK_STORAGE_KEY = "stabiliser-simulator.hedgeBook";
+
+export interface HedgePosition {
+  id: string;
+  materialId: string;
+  instrument: HedgeInstrumentType;
+  quantity: number;     // UOM of the material
+  price: number;        // ₹/UOM: contract price, call strike or collar cap
+  floorPrice: number;   // ₹/UOM: collar only
+  premium: number;      // ₹/UOM
+  tradeDate: string;    // YYYY-MM-DD
+  maturity: string;     // YYYY-MM-DD
+}
+
+export function loadHedgeBook(): HedgePosition[] {
+  try {
+    const raw = localStorage.getItem(HEDGE_BOOK_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error loading hedge book:', error);
+    return [];
+  }
+}
+
+export function persistHedgeBook(positions: HedgePosition[]) {
+  try {
+    localStorage.setItem(HEDGE_BOOK_STORAGE_KEY, JSON.stringify(positions));
+  } catch (error) {
+    console.error('Error saving hedge book:', error);
+  }
+}
+
+export function positionInstrument(position: HedgePosition): HedgeInstrument {
+  return {
+    ...DEFAULT_HEDGE_INSTRUMENT,
+    type: position.instrument,
+    strike: position.price,
+    floorStrike: position.floorPrice,
+    premium: position.premium,
+    expiry: position.maturity.slice(0, 7),
+  };
+}
+
+// Positions still covering future purchases; matured ones have settled
+export function isOpenPosition(position: HedgePosition, asOf: string) {
+  return position.maturity >= asOf;
+}
+
+// Intrinsic value against spot, net of premium: what the position saves on the purchase
+export function markToMarket(position: HedgePosition, spot: number) {
+  return (spot - hedgedPrice(positionInstrument(position), spot)) * position.quantity;
+}
+
+// Open quantity and its weighted locked-in cost at today's newPrice, per material
+export function hedgeBookCover(positions: HedgePosition[], materials: Material[], asOf: string) {
+  const cover: Record<string, HedgeCover> = {};
+  positions.filter(p => isOpenPosition(p, asOf)).forEach(p => {
+    const material = materials.find(m => m.id === p.materialId);
+    if (!material || p.quantity <= 0) return;
+    const locked = hedgedPrice(positionInstrument(p), material.newPrice);
+    const prev = cover[p.materialId] ?? { qty: 0, price: 0 };
+    const qty = prev.qty + p.quantity;
+    cover[p.materialId] = { qty, price: (prev.qty * prev.price + p.quantity * locked) / qty };
+  });
+  return cover;
+}
+
+// Hedged vs unhedged purchase requirement per material that is on the BOM or in the book
+export function hedgeBookExposure(positions: HedgePosition[], materials: Material[], procurementPlan: ProcurementPlan[], asOf: string) {
+  const cover = hedgeBookCover(positions, materials, asOf);
+  return procurementPlan
+    .filter(p => p.bomQty > 0 || positions.some(pos => pos.materialId === p.id))
+    .map(p => {
+      const material = materials.find(m => m.id === p.id);
+      const hedgedQty = cover[p.id]?.qty ?? 0;
+      const mtm = positions
+        .filter(pos => pos.materialId === p.id && isOpenPosition(pos, asOf))
+        .reduce((sum, pos) => sum + markToMarket(pos, material?.newPrice ?? p.newPrice), 0);
+      return {
+        id: p.id,
+        name: p.name,
+        uom: p.uom,
+        grossReq: p.grossReq,
+        onHand: p.onHand,
+        procureQty: p.procureQty,
+        hedgedQty,
+        openExposure: Math.max(0, p.procureQty - hedgedQty),
+        overHedgedQty: Math.max(0, hedgedQty - p.procureQty),
+        coverPct: p.procureQty > 0 ? Math.min(1, hedgedQty / p.procureQty) : 0,
+        lockedPrice: cover[p.id]?.price,
+        mtm,
+      };
+    });
+}
+
+const HEDGE_BOOK_INSTRUMENT_ALIASES: Record<string, HedgeInstrumentType> = {
+  future: 'future', futures: 'future', mcxfutures: 'future',
+  forward: 'forward', forwards: 'forward',
+  call: 'call', calloption: 'call', option: 'call',
+  collar: 'collar', zerocostcollar: 'collar',
+};
+
+export function hedgeBookExportRows(positions: HedgePosition[]) {
+  return positions.map(p => ({
+    id: p.id,
+    materialId: p.materialId,
+    instrument: p.instrument,
+    quantity: p.quantity,
+    price: p.price,
+    floorPrice: p.floorPrice,
+    premium: p.premium,
+    tradeDate: p.tradeDate,
+    maturity: p.maturity,
+  }));
+}
+
+// Same header matching as the price history import; rows failing validation are counted, not imported
+export async function parseHedgeBookFile(file: File, materialIds: string[]) {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]], { raw: true });
+
+  const field = (record: Record<string, unknown>, aliases: string[]) => {
+    const key = Object.keys(record).find(k => aliases.includes(normaliseHeader(k)));
+    return key === undefined ? undefined : record[key];
+  };
+  const number = (value: unknown) => Number(String(value ?? "0").replace(/,/g, "")) || 0;
+
+  const positions: HedgePosition[] = [];
+  let rejected = 0;
+  records.forEach(record => {
+    const materialId = String(field(record, ["materialid", "material"]) ?? "").trim();
+    const instrument = HEDGE_BOOK_INSTRUMENT_ALIASES[normaliseHeader(String(field(record, ["instrument", "type"]) ?? ""))];
+    const quantity = number(field(record, ["quantity", "qty"]));
+    const price = number(field(record, ["price", "strike", "contractprice"]));
+    const tradeDate = parseDateValue(field(record, ["tradedate", "date"]));
+    const maturity = parseDateValue(field(record, ["maturity", "expiry", "maturitydate"]));
+    if (!materialIds.includes(materialId) || !instrument || quantity <= 0 || price <= 0 || !tradeDate || !maturity || maturity < tradeDate) {
+      rejected++;
+      return;
+    }
+    positions.push({
+      id: String(field(record, ["id", "positionid"]) ?? "").trim() || newId(),
+      materialId,
+      instrument,
+      quantity,
+      price,
+      floorPrice: number(field(record, ["floorprice", "floor", "floorstrike"])),
+      premium: number(field(record, ["premium"])),
+      tradeDate,
+      maturity,
+    });
+  });
+  return { positions, rejected };
+}
@@ -0,0 +1,187 @@
+import * as XLSX from "xlsx";
+import { ProcurementPlan } from "./costing";
+import { CURRENCIES, Currency, FxSettings, inrRate } from "./currency";
+import { BomLine, Material } from "./masterData";
+
+// Spreadsheet columns accepted for the material master (bomQty applies to the selected SKU)
+export type ImportField = 'id' | 'name' | 'uom' | 'currency' | 'newPrice' | 'oldCost' | 'onHand' | 'bomQty';
+
+export const IMPORT_FIELDS: Record<ImportField, { label: string; aliases: string[]; numeric: boolean }> = {
+  id: { label: "Material ID", aliases: ["materialid", "id", "material", "code", "materialcode"], numeric: false },
+  name: { label: "Name", aliases: ["name", "description", "materialname"], numeric: false },
+  uom: { label: "UoM", aliases: ["uom", "unit", "baseunit"], numeric: false },
+  currency: { label: "Currency", aliases: ["currency", "ccy", "pricecurrency"], numeric: false },
+  newPrice: { label: "New Price", aliases: ["newprice", "price", "latestprice"], numeric: true },
+  oldCost: { label: "Old Cost", aliases: ["oldcost", "cost", "stockcost"], numeric: true },
+  onHand: { label: "On-hand", aliases: ["onhand", "stock", "onhandqty", "unrestricted"], numeric: true },
+  bomQty: { label: "BOM Qty", aliases: ["bomqty", "qty", "quantity", "bomquantity"], numeric: true },
+};
+
+export type ColumnMapping = Record<ImportField, number>; // column index, -1 = not mapped
+
+export interface ImportRow {
+  rowNumber: number;
+  id: string;
+  status: 'new' | 'changed' | 'unchanged' | 'invalid';
+  errors: string[];
+  changes: Array<{ field: ImportField; before: string | number; after: string | number }>;
+  material?: Material;
+  bomQty?: number;
+}
+
+export const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Each column is claimed by at most one field, in IMPORT_FIELDS order
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalised = headers.map(normaliseHeader);
+  const claimed = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+    const index = IMPORT_FIELDS[field].aliases
+      .map(alias => normalised.findIndex((h, i) => h === alias && !claimed.has(i)))
+      .find(i => i >= 0) ?? -1;
+    if (index >= 0) claimed.add(index);
+    mapping[field] = index;
+  });
+  return mapping;
+}
+
+// Columns mapped to more than one field, e.g. after a manual remap
+export function mappingConflicts(mapping: ColumnMapping) {
+  const fieldsByColumn = new Map<number, ImportField[]>();
+  (Object.keys(mapping) as ImportField[]).filter(field => mapping[field] >= 0).forEach(field => {
+    fieldsByColumn.set(mapping[field], [...(fieldsByColumn.get(mapping[field]) ?? []), field]);
+  });
+  return [...fieldsByColumn.entries()]
+    .filter(([, fields]) => fields.length > 1)
+    .map(([column, fields]) => `Column ${column + 1} is mapped to ${fields.map(f => IMPORT_FIELDS[f].label).join(" and ")}`);
+}
+
+// Validate each data row and diff it against the current material master;
+// an ambiguous mapping makes every row invalid until it is resolved
+export function buildImportPreview(rows: string[][], mapping: ColumnMapping, materials: Material[], bomLines: BomLine[], fx: FxSettings): ImportRow[] {
+  const seen = new Set<string>();
+  const conflicts = mappingConflicts(mapping);
+
+  return rows.map((row, index) => {
+    const errors: string[] = [...conflicts];
+    const cell = (field: ImportField) => mapping[field] >= 0 ? String(row[mapping[field]] ?? "").trim() : "";
+    const numberCell = (field: ImportField) => {
+      const raw = cell(field);
+      if (mapping[field] < 0 || raw === "") return undefined;
+      const value = Number(raw.replace(/,/g, ""));
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push(`${IMPORT_FIELDS[field].label} "${raw}" is not a valid non-negative number`);
+        return undefined;
+      }
+      return value;
+    };
+
+    const id = cell('id');
+    if (!id) errors.push("Material ID is missing");
+    else if (seen.has(id)) errors.push(`Duplicate material ID ${id}`);
+    seen.add(id);
+
+    const existing = materials.find(m => m.id === id);
+    const name = cell('name') || existing?.name || "";
+    const uom = cell('uom') || existing?.uom || "";
+    if (!existing && !name) errors.push("Name is required for a new material");
+    if (!existing && !uom) errors.push("UoM is required for a new material");
+    const rawCurrency = cell('currency').toUpperCase();
+    if (rawCurrency && !(rawCurrency in CURRENCIES)) errors.push(`Currency "${rawCurrency}" is not one of ${Object.keys(CURRENCIES).join(", ")}`);
+    const currency = (rawCurrency in CURRENCIES ? rawCurrency : existing?.currency ?? 'INR') as Currency;
+
+    const newPrice = numberCell('newPrice') ?? existing?.newPrice;
+    // Book values are INR, so a new material's defaults convert its quoted price
+    const inrPrice = newPrice === undefined ? undefined : newPrice * inrRate(currency, fx);
+    const oldCost = numberCell('oldCost') ?? existing?.oldCost ?? inrPrice;
+    const onHand = numberCell('onHand') ?? existing?.onHand ?? 0;
+    const bomQty = numberCell('bomQty');
+    if (newPrice === undefined && !errors.length) errors.push("New Price is required for a new material");
+
+    if (errors.length || newPrice === undefined || oldCost === undefined) {
+      return { rowNumber: index + 2, id, status: 'invalid', errors, changes: [] };
+    }
+
+    const material: Material = existing
+      ? { ...existing, name, uom, currency, newPrice, oldCost, onHand }
+      : { id, name, uom, currency, newPrice, oldCost, onHand, leadTimeMonths: 0, safetyStock: 0, stdCost: oldCost };
+
+    const changes: ImportRow['changes'] = [];
+    if (existing) {
+      (['name', 'uom', 'currency', 'newPrice', 'oldCost', 'onHand'] as const).forEach(field => {
+        if (existing[field] !== material[field]) changes.push({ field, before: existing[field], after: material[field] });
+      });
+    }
+    const currentBomQty = bomLines.find(l => l.materialId === id)?.qty ?? 0;
+    if (bomQty !== undefined && bomQty !== currentBomQty) {
+      changes.push({ field: 'bomQty', before: currentBomQty, after: bomQty });
+    }
+
+    return {
+      rowNumber: index + 2,
+      id,
+      status: !existing ? 'new' : changes.length ? 'changed' : 'unchanged',
+      errors,
+      changes,
+      material,
+      bomQty
+    };
+  });
+}
+
+// Price move per existing material in INR terms, so a currency change alone doesn't rescale its quotes
+export function importPriceRatios(rows: ImportRow[], materials: Material[], fx: FxSettings) {
+  return Object.fromEntries(rows.flatMap(r => {
+    const before = materials.find(m => m.id === r.material?.id);
+    if (!r.material || !before || before.newPrice <= 0) return [];
+    const ratio = (r.material.newPrice * inrRate(r.material.currency, fx)) / (before.newPrice * inrRate(before.currency, fx));
+    return ratio === 1 ? [] : [[before.id, ratio]];
+  })) as Record<string, number>;
+}
+
+export function materialExportRows(materials: Material[], bomLines: BomLine[]) {
+  return materials.map(m => ({
+    [IMPORT_FIELDS.id.label]: m.id,
+    [IMPORT_FIELDS.name.label]: m.name,
+    [IMPORT_FIELDS.uom.label]: m.uom,
+    [IMPORT_FIELDS.currency.label]: m.currency,
+    [IMPORT_FIELDS.newPrice.label]: m.newPrice,
+    [IMPORT_FIELDS.oldCost.label]: m.oldCost,
+    [IMPORT_FIELDS.onHand.label]: m.onHand,
+    [IMPORT_FIELDS.bomQty.label]: bomLines.find(l => l.materialId === m.id)?.qty ?? 0,
+  }));
+}
+
+export function procurementExportRows(plan: ProcurementPlan[]) {
+  return plan.map(p => ({
+    "Material ID": p.id,
+    "Name": p.name,
+    "UoM": p.uom,
+    "BOM Qty": p.bomQty,
+    "Gross Req": p.grossReq,
+    "On-hand": p.onHand,
+    "Net Req": p.netReq,
+    "Procure Qty": p.procureQty,
+    "Supplier": p.sourcing?.allocations.map(a => `${a.name} ${a.qty}`).join("; ") ?? "",
+    "New Price": p.newPrice,
+    "Purchase Price": Number(p.purchasePrice.toFixed(2)),
+    "Spend": p.spend,
+    "Avg Cost": Number(p.avgCost.toFixed(2)),
+  }));
+}
+
+// Writes one sheet per entry; CSV downloads one file per sheet
+export function downloadSheets(sheets: Record<string, object[]>, fileName: string, bookType: 'csv' | 'xlsx') {
+  if (bookType === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), name));
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+    return;
+  }
+  Object.entries(sheets).forEach(([name, rows]) => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), name);
+    XLSX.writeFile(workbook, `${fileName}-${name.toLowerCase()}.csv`, { bookType: 'csv' });
+  });
+}
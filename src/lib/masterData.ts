@@ -0,0 +1,198 @@
+import { Currency } from "./currency";
+
+// Material master: shared price and inventory data, independent of any SKU
+export interface Material {
+  id: string;
+  name: string;
+  uom: string;
+  currency: Currency;  // currency newPrice is quoted in; oldCost and stdCost are INR book values
+  newPrice: number;
+  oldCost: number;
+  onHand: number;
+  leadTimeMonths: number;
+  safetyStock: number;
+  stdCost: number;
+  landed?: LandedCostTerms;  // imported or delivered-in materials; absent means newPrice is all-in
+  scrap?: ScrapTerms;        // process loss; absent means none
+}
+
+// Process loss in manufacture, e.g. winding offcuts and stamping skeleton
+interface ScrapTerms {
+  lossPct: number;      // share of material issued that ends up as scrap
+  recoveryPct: number;  // share of that scrap collected and sold
+  price: number;        // ₹ per UOM realised on scrap sales
+}
+
+export const NO_SCRAP: ScrapTerms = { lossPct: 0, recoveryPct: 0, price: 0 };
+
+// Landed cost terms; percentages as fractions, charges in ₹ per UOM
+export interface LandedCostTerms {
+  bcdPct: number;                 // basic customs duty on the assessable value
+  swsPct: number;                 // social welfare surcharge, levied on the duty
+  gstPct: number;                 // IGST on value plus duties
+  gstRecoverable: boolean;        // claimed back as input tax credit
+  clearingPerUnit: number;        // customs broker, port and handling charges
+  inboundFreightPerUnit: number;  // port or supplier to plant
+}
+
+export const IMPORT_LANDED_TERMS: LandedCostTerms = {
+  bcdPct: 0.1,
+  swsPct: 0.1,
+  gstPct: 0.18,
+  gstRecoverable: true,
+  clearingPerUnit: 0,
+  inboundFreightPerUnit: 0,
+};
+
+// Supplier master: one quote per supplier and material, in the supplier's currency
+export interface PriceBreak {
+  minQty: number;  // tier applies to orders of at least this quantity
+  price: number;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  materialId: string;
+  currency: Currency;
+  priceBreaks: PriceBreak[];
+  moq: number;
+  packSize: number;        // orders are placed in whole packs
+  leadTimeMonths: number;
+  capacity?: number;       // most it can supply this plan; absent means unlimited
+}
+
+// Sample data with inventory information
+export const MATERIALS: Material[] = [
+  { id: "M_COPPER", name: "Copper Wire (Electrolytic)", uom: "KG", currency: "INR", newPrice: 880, oldCost: 800, onHand: 1000, leadTimeMonths: 1, safetyStock: 300, stdCost: 850, scrap: { lossPct: 0.03, recoveryPct: 0.9, price: 620 } },
+  { id: "M_ALUM", name: "Aluminium Wire", uom: "KG", currency: "INR", newPrice: 260, oldCost: 255, onHand: 800, leadTimeMonths: 1, safetyStock: 100, stdCost: 255 },
+  { id: "M_STEEL_LAM", name: "CRGO Steel Laminations", uom: "KG", currency: "INR", newPrice: 155, oldCost: 150, onHand: 2000, leadTimeMonths: 2, safetyStock: 500, stdCost: 150, scrap: { lossPct: 0.08, recoveryPct: 0.95, price: 38 } },
+  { id: "M_ABS", name: "ABS Plastic", uom: "KG", currency: "INR", newPrice: 180, oldCost: 178, onHand: 500, leadTimeMonths: 1, safetyStock: 150, stdCost: 175 },
+  { id: "M_PCBA", name: "PCB Assembly", uom: "EA", currency: "USD", newPrice: 4.1, oldCost: 350, onHand: 500, leadTimeMonths: 2, safetyStock: 200, stdCost: 350, landed: { ...IMPORT_LANDED_TERMS, clearingPerUnit: 4, inboundFreightPerUnit: 3 } },
+  { id: "M_DISPLAY", name: "7-seg Display", uom: "EA", currency: "INR", newPrice: 125, oldCost: 120, onHand: 300, leadTimeMonths: 2, safetyStock: 100, stdCost: 120 },
+  { id: "M_SOLDER", name: "Solder 60/40", uom: "KG", currency: "INR", newPrice: 1250, oldCost: 1200, onHand: 50, leadTimeMonths: 1, safetyStock: 10, stdCost: 1200 },
+  { id: "M_SWITCH", name: "Switch Kit", uom: "EA", currency: "INR", newPrice: 52, oldCost: 50, onHand: 1000, leadTimeMonths: 1, safetyStock: 200, stdCost: 50 },
+  { id: "M_PACK", name: "Packaging Set", uom: "SET", currency: "INR", newPrice: 72, oldCost: 70, onHand: 800, leadTimeMonths: 0, safetyStock: 100, stdCost: 70 },
+  { id: "M_RELAY", name: "Power Relay", uom: "EA", currency: "CNY", newPrice: 9.35, oldCost: 110, onHand: 400, leadTimeMonths: 2, safetyStock: 300, stdCost: 110, landed: { ...IMPORT_LANDED_TERMS, clearingPerUnit: 2, inboundFreightPerUnit: 1.5 } },
+  { id: "M_MC", name: "Microcontroller", uom: "EA", currency: "USD", newPrice: 1.08, oldCost: 90, onHand: 600, leadTimeMonths: 3, safetyStock: 200, stdCost: 90, landed: { ...IMPORT_LANDED_TERMS, bcdPct: 0, clearingPerUnit: 1, inboundFreightPerUnit: 0.5 } },
+];
+
+export const PRODUCTS = {
+  P100: { name: "SB-1kVA-Digital", listPrice: 6500, targetMargin: 0.25, plant: "HYD1" },
+  P200: { name: "SB-2kVA-Digital", listPrice: 9000, targetMargin: 0.25, plant: "HYD1" },
+  P300: { name: "SB-0.5kVA-Refrigerator", listPrice: 3500, targetMargin: 0.25, plant: "HYD1" },
+};
+
+// Plant rates for activity-based overheads
+export interface Plant {
+  name: string;
+  labourRatePerHour: number;  // ₹, fully loaded
+  powerTariff: number;        // ₹ per kWh
+}
+
+export const PLANTS: Record<string, Plant> = {
+  HYD1: { name: "Hyderabad Plant 1", labourRatePerHour: 280, powerTariff: 8.5 },
+};
+
+// Routing operation: standard time and metered energy per finished unit
+export interface Operation {
+  name: string;
+  stdMinutes: number;
+  kwh: number;
+}
+
+export const ROUTINGS: Record<keyof typeof PRODUCTS, Operation[]> = {
+  P100: [
+    { name: "Coil winding", stdMinutes: 18, kwh: 0.9 },
+    { name: "Core stacking", stdMinutes: 8, kwh: 0.2 },
+    { name: "PCB assembly & test", stdMinutes: 6, kwh: 0.15 },
+    { name: "Final assembly", stdMinutes: 10, kwh: 0.1 },
+    { name: "Burn-in test", stdMinutes: 4, kwh: 1.2 },
+    { name: "Packing", stdMinutes: 3, kwh: 0 },
+  ],
+  P200: [
+    { name: "Coil winding", stdMinutes: 26, kwh: 1.4 },
+    { name: "Core stacking", stdMinutes: 12, kwh: 0.3 },
+    { name: "PCB assembly & test", stdMinutes: 6, kwh: 0.15 },
+    { name: "Final assembly", stdMinutes: 12, kwh: 0.1 },
+    { name: "Burn-in test", stdMinutes: 4, kwh: 2.1 },
+    { name: "Packing", stdMinutes: 4, kwh: 0 },
+  ],
+  P300: [
+    { name: "Coil winding", stdMinutes: 12, kwh: 0.6 },
+    { name: "Core stacking", stdMinutes: 5, kwh: 0.1 },
+    { name: "PCB assembly & test", stdMinutes: 5, kwh: 0.12 },
+    { name: "Final assembly", stdMinutes: 8, kwh: 0.1 },
+    { name: "Burn-in test", stdMinutes: 3, kwh: 0.6 },
+    { name: "Packing", stdMinutes: 2, kwh: 0 },
+  ],
+};
+
+// Bill of materials line: quantity of one material consumed per finished unit
+export interface BomLine {
+  materialId: string;
+  qty: number;
+  uom: string;
+}
+
+export const SUPPLIERS: Supplier[] = [
+  { id: "S_SHAKTI_CU", name: "Shakti Metals", materialId: "M_COPPER", currency: "INR", priceBreaks: [{ minQty: 0, price: 882 }, { minQty: 5000, price: 870 }, { minQty: 15000, price: 858 }], moq: 2000, packSize: 500, leadTimeMonths: 1, capacity: 15000 },
+  { id: "S_VARDHMAN_CU", name: "Vardhman Wires", materialId: "M_COPPER", currency: "INR", priceBreaks: [{ minQty: 0, price: 886 }, { minQty: 10000, price: 874 }], moq: 1000, packSize: 250, leadTimeMonths: 1 },
+  { id: "S_EASTERN_CU", name: "Eastern Copper Imports", materialId: "M_COPPER", currency: "INR", priceBreaks: [{ minQty: 0, price: 845 }], moq: 10000, packSize: 1000, leadTimeMonths: 3 },
+  { id: "S_SHENZHEN_PCBA", name: "Shenzhen Boards", materialId: "M_PCBA", currency: "USD", priceBreaks: [{ minQty: 0, price: 4.15 }, { minQty: 5000, price: 4.0 }], moq: 1000, packSize: 500, leadTimeMonths: 2, capacity: 6000 },
+  { id: "S_PENANG_PCBA", name: "Penang EMS", materialId: "M_PCBA", currency: "USD", priceBreaks: [{ minQty: 0, price: 4.2 }, { minQty: 2000, price: 4.1 }], moq: 500, packSize: 100, leadTimeMonths: 2 },
+];
+
+// Per-SKU bills of material (quantities scale with the kVA rating)
+export const BOM: Record<keyof typeof PRODUCTS, BomLine[]> = {
+  P100: [
+    { materialId: "M_COPPER", qty: 2.5, uom: "KG" },
+    { materialId: "M_STEEL_LAM", qty: 3.0, uom: "KG" },
+    { materialId: "M_ABS", qty: 1.2, uom: "KG" },
+    { materialId: "M_PCBA", qty: 1.0, uom: "EA" },
+    { materialId: "M_DISPLAY", qty: 1.0, uom: "EA" },
+    { materialId: "M_SOLDER", qty: 0.05, uom: "KG" },
+    { materialId: "M_SWITCH", qty: 1.0, uom: "EA" },
+    { materialId: "M_PACK", qty: 1.0, uom: "SET" },
+    { materialId: "M_RELAY", qty: 2.0, uom: "EA" },
+    { materialId: "M_MC", qty: 1.0, uom: "EA" },
+  ],
+  P200: [
+    { materialId: "M_COPPER", qty: 4.2, uom: "KG" },
+    { materialId: "M_STEEL_LAM", qty: 5.5, uom: "KG" },
+    { materialId: "M_ABS", qty: 1.8, uom: "KG" },
+    { materialId: "M_PCBA", qty: 1.0, uom: "EA" },
+    { materialId: "M_DISPLAY", qty: 1.0, uom: "EA" },
+    { materialId: "M_SOLDER", qty: 0.07, uom: "KG" },
+    { materialId: "M_SWITCH", qty: 1.0, uom: "EA" },
+    { materialId: "M_PACK", qty: 1.0, uom: "SET" },
+    { materialId: "M_RELAY", qty: 3.0, uom: "EA" },
+    { materialId: "M_MC", qty: 1.0, uom: "EA" },
+  ],
+  P300: [
+    { materialId: "M_COPPER", qty: 1.3, uom: "KG" },
+    { materialId: "M_STEEL_LAM", qty: 1.6, uom: "KG" },
+    { materialId: "M_ABS", qty: 0.7, uom: "KG" },
+    { materialId: "M_PCBA", qty: 1.0, uom: "EA" },
+    { materialId: "M_SOLDER", qty: 0.03, uom: "KG" },
+    { materialId: "M_SWITCH", qty: 1.0, uom: "EA" },
+    { materialId: "M_PACK", qty: 1.0, uom: "SET" },
+    { materialId: "M_RELAY", qty: 1.0, uom: "EA" },
+    { materialId: "M_MC", qty: 1.0, uom: "EA" },
+  ],
+};
+
+// Material substitution: replace a share of one material with an equivalent quantity of another
+export interface SubstitutionRule {
+  id: string;
+  label: string;
+  fromMaterialId: string;
+  toMaterialId: string;
+  pct: number;      // share of the "from" quantity replaced (0-1)
+  ratio: number;    // "to" quantity needed per unit of "from" replaced
+  maxPct: number;   // engineering cap on pct
+}
+
+export const SUBSTITUTIONS: SubstitutionRule[] = [
+  { id: "CU_AL", label: "Copper → Aluminium", fromMaterialId: "M_COPPER", toMaterialId: "M_ALUM", pct: 0, ratio: 1.6, maxPct: 0.4 },
+];
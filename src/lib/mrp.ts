@@ -0,0 +1,194 @@
+import { applyOverheads, CostInputs, landedCostBuildUp, materialsInInr, purchaseRequirement, scrapGrossUp, scrapOnIssue } from "./costing";
+import { DEFAULT_FX } from "./currency";
+import { addMonths, formatMonth, toIsoDate } from "./dates";
+import { PRODUCTS } from "./masterData";
+
+// Month label `offset` months from today, e.g. "Mar 2026"; counts from the 1st so month ends don't skip
+export function monthLabel(offset: number) {
+  return formatMonth(addMonths(toIsoDate(new Date()).slice(0, 7), offset));
+}
+
+// Whole units per month summing exactly to total, split by each month's share
+export function phaseDemand(total: number, shares: number[]) {
+  let cumulative = 0;
+  let placed = 0;
+  return shares.map(share => {
+    cumulative += share;
+    const units = Math.round(total * cumulative) - placed;
+    placed += units;
+    return units;
+  });
+}
+
+// Each month's share of the units; an all-zero plan spreads evenly
+export function demandShares(units: number[]) {
+  const total = units.reduce((sum, u) => sum + u, 0);
+  return units.map(u => total > 0 ? u / total : 1 / units.length);
+}
+
+interface MrpPeriod {
+  month: string;
+  grossReq: number;
+  plannedRelease: number;   // order placed this month
+  plannedReceipt: number;   // order arriving this month
+  projectedOnHand: number;  // end of month, negative = backlog
+  avgCost: number;          // unit cost of this month's issues under the valuation method
+  shortage: number;
+}
+
+interface MrpMaterialPlan {
+  id: string;
+  name: string;
+  uom: string;
+  bomQty: number;
+  leadTimeMonths: number;
+  safetyStock: number;
+  procureQty: number;
+  purchasePrice: number;
+  spend: number;
+  ppv: number;  // standard cost only: the horizon's receipts against standard
+  periods: MrpPeriod[];
+}
+
+/**
+ * Time-phased MRP: lot-for-lot netting per month against safety stock.
+ * Receipts cannot land inside a material's lead time, so early demand
+ * above stock shows up as a shortage instead of a planned receipt.
+ * The horizon's receipts are bought as one requirement, through hedge
+ * cover and the supplier master like the procurement plan, and issues
+ * are valued by the selected method.
+ */
+export function computeMrpPlan({
+  sku,
+  monthlyDemand,
+  materials: quotedMaterials,
+  bom,
+  listPriceOverride,
+  targetMarginOverride,
+  laborPct,
+  energyPct,
+  freight,
+  warrantyPct,
+  valuationMethod = 'movingAverage',
+  hedgeCover = {},
+  fx = DEFAULT_FX,
+  suppliers = [],
+  activity,
+  fixedCosts = 0,
+  channel,
+}: Omit<CostInputs, 'forecastUnits'> & { monthlyDemand: number[] }) {
+  const product = PRODUCTS[sku];
+  const materials = materialsInInr(quotedMaterials, fx);
+  const listPrice = listPriceOverride ?? product.listPrice;
+  const targetMargin = targetMarginOverride ?? product.targetMargin;
+
+  const materialPlans: MrpMaterialPlan[] = materials
+    .map(m => ({ m, bomQty: bom.find(l => l.materialId === m.id)?.qty ?? 0 }))
+    .filter(({ bomQty }) => bomQty > 0)
+    .map(({ m, bomQty }) => {
+      const releases = monthlyDemand.map(() => 0);
+      let onHand = m.onHand;
+      const netting = monthlyDemand.map((units, t) => {
+        const grossReq = bomQty * units * scrapGrossUp(m);
+        const netReq = grossReq + m.safetyStock - onHand;
+        const plannedReceipt = t >= m.leadTimeMonths && netReq > 0 ? netReq : 0;
+        if (plannedReceipt > 0) releases[t - m.leadTimeMonths] += plannedReceipt;
+        onHand = onHand + plannedReceipt - grossReq;
+        return { grossReq, plannedReceipt, projectedOnHand: onHand };
+      });
+
+      const procureQty = netting.reduce((sum, p) => sum + p.plannedReceipt, 0);
+      const { basePrice } = purchaseRequirement(m, procureQty, hedgeCover[m.id], suppliers, fx);
+      const purchasePrice = landedCostBuildUp(m.landed, basePrice).landedPrice;
+
+      // Moving average re-averages on each receipt; FIFO issues the oldest layers first,
+      // with any backlog at the purchase price; standard issues at stdCost
+      let avgCost = m.onHand > 0 ? m.oldCost : purchasePrice;
+      let stock = m.onHand;
+      let backlog = 0;
+      const layers = m.onHand > 0 ? [{ qty: m.onHand, cost: m.oldCost }] : [];
+      const periods = netting.map(({ grossReq, plannedReceipt, projectedOnHand }, t) => {
+        if (plannedReceipt > 0) {
+          const base = Math.max(stock, 0);
+          avgCost = (base * avgCost + plannedReceipt * purchasePrice) / (base + plannedReceipt);
+          // Part of the receipt clears last month's backlog, already issued at the purchase price
+          const cleared = Math.min(backlog, plannedReceipt);
+          backlog -= cleared;
+          if (plannedReceipt > cleared) layers.push({ qty: plannedReceipt - cleared, cost: purchasePrice });
+        }
+        stock = projectedOnHand;
+
+        let issueCost = avgCost;
+        if (valuationMethod === 'standard') issueCost = m.stdCost;
+        if (valuationMethod === 'fifo') {
+          let remaining = grossReq;
+          let cost = 0;
+          while (remaining > 0 && layers.length > 0) {
+            const take = Math.min(remaining, layers[0].qty);
+            cost += take * layers[0].cost;
+            remaining -= take;
+            layers[0].qty -= take;
+            if (layers[0].qty <= 0) layers.shift();
+          }
+          backlog += remaining;
+          issueCost = grossReq > 0 ? (cost + remaining * purchasePrice) / grossReq : (layers[0]?.cost ?? purchasePrice);
+        }
+
+        return {
+          month: monthLabel(t + 1),
+          grossReq,
+          plannedRelease: releases[t],
+          plannedReceipt,
+          projectedOnHand,
+          avgCost: issueCost,
+          shortage: Math.max(0, -projectedOnHand)
+        };
+      });
+
+      return {
+        id: m.id,
+        name: m.name,
+        uom: m.uom,
+        bomQty,
+        leadTimeMonths: m.leadTimeMonths,
+        safetyStock: m.safetyStock,
+        procureQty,
+        purchasePrice,
+        spend: procureQty * purchasePrice,
+        ppv: valuationMethod === 'standard' ? procureQty * (purchasePrice - m.stdCost) : 0,
+        periods
+      };
+    });
+
+  const scrapPerUnit = (t: number) => materialPlans.map(p => {
+    const m = materials.find(x => x.id === p.id)!;
+    const { scrapQty, credit } = scrapOnIssue(m, p.bomQty * scrapGrossUp(m));
+    return { loss: scrapQty * p.periods[t].avgCost, credit };
+  });
+
+  // Fixed costs and purchase price variance are absorbed evenly over the horizon's total demand
+  const horizonUnits = monthlyDemand.reduce((sum, units) => sum + units, 0);
+  const perUnit = (total: number) => horizonUnits > 0 ? total / horizonUnits : 0;
+
+  const months = monthlyDemand.map((units, t) => ({
+    month: monthLabel(t + 1),
+    units,
+    ...applyOverheads({
+      directMaterialCost: materialPlans.reduce((sum, p) => sum + p.bomQty * p.periods[t].avgCost, 0),
+      scrapLoss: scrapPerUnit(t).reduce((sum, s) => sum + s.loss, 0),
+      scrapCredit: scrapPerUnit(t).reduce((sum, s) => sum + s.credit, 0),
+      purchasePriceVariance: perUnit(materialPlans.reduce((sum, p) => sum + p.ppv, 0)),
+      listPrice,
+      targetMargin,
+      laborPct,
+      energyPct,
+      freight,
+      warrantyPct,
+      activity,
+      fixedCostPerUnit: perUnit(fixedCosts),
+      channel,
+    })
+  }));
+
+  return { materialPlans, months };
+}
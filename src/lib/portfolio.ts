@@ -0,0 +1,168 @@
+import { ActivityCosting, applyLandedCost, computeCostsWithInventory, CostInputs, FixedCostPool, HedgeCover, materialsInInr, PriceWaterfall, ProcurementPlan, purchaseRequirement, scrapGrossUp, skuFixedCost, ValuationMethod, valuedUnitCost } from "./costing";
+import { DEFAULT_FX, FxSettings } from "./currency";
+import { BomLine, Material, PRODUCTS, Supplier } from "./masterData";
+
+export type AllocationRule = 'proRata' | 'priority' | 'marginFirst';
+
+export const ALLOCATION_RULES: Record<AllocationRule, string> = {
+  proRata: "Pro-rata to requirement",
+  priority: "Priority order",
+  marginFirst: "Margin-first",
+};
+
+interface PortfolioInputs {
+  forecasts: Record<keyof typeof PRODUCTS, number>;
+  materials: Material[];
+  fx?: FxSettings;
+  suppliers?: Supplier[];
+  valuationMethod?: ValuationMethod;
+  hedgeCover?: Record<string, HedgeCover>;
+  activity?: Record<keyof typeof PRODUCTS, ActivityCosting>;
+  fixedCostPools?: FixedCostPool[];
+  channel?: PriceWaterfall;
+  boms: Record<keyof typeof PRODUCTS, BomLine[]>;
+  listPrices: Record<keyof typeof PRODUCTS, number>;
+  targetMargins: Record<keyof typeof PRODUCTS, number>;
+  allocationRule: AllocationRule;
+  priority: Array<keyof typeof PRODUCTS>;
+  laborPct: number;
+  energyPct: number;
+  freight: number;
+  warrantyPct: number;
+}
+
+/**
+ * Portfolio costing: all SKUs draw on one shared on-hand pool.
+ * Stock is allocated per material, then each SKU is costed by
+ * computeCostsWithInventory against only its allocated share.
+ */
+export function computePortfolioCosts({
+  forecasts,
+  materials: quotedMaterials,
+  fx = DEFAULT_FX,
+  suppliers = [],
+  valuationMethod = 'movingAverage',
+  hedgeCover = {},
+  activity,
+  fixedCostPools = [],
+  channel,
+  boms,
+  listPrices,
+  targetMargins,
+  allocationRule,
+  priority,
+  laborPct,
+  energyPct,
+  freight,
+  warrantyPct,
+}: PortfolioInputs) {
+  const skus = Object.keys(PRODUCTS) as Array<keyof typeof PRODUCTS>;
+  const inrMaterials = materialsInInr(quotedMaterials, fx);
+  // Hedge cover locks in part of the combined net requirement and suppliers quote on the rest;
+  // every SKU then buys at the blended average price
+  const purchases = Object.fromEntries(inrMaterials.map(m => {
+    const totalReq = skus.reduce((sum, sku) => sum + (boms[sku].find(l => l.materialId === m.id)?.qty ?? 0) * forecasts[sku], 0) * scrapGrossUp(m);
+    return [m.id, purchaseRequirement(m, Math.max(0, totalReq - m.onHand), hedgeCover[m.id], suppliers, fx)];
+  }));
+  const materials = applyLandedCost(inrMaterials.map(m => ({ ...m, newPrice: purchases[m.id].basePrice })));
+  const inputsFor = (sku: keyof typeof PRODUCTS, skuMaterials: Material[]): CostInputs => ({
+    sku,
+    forecastUnits: forecasts[sku],
+    materials: skuMaterials,
+    bom: boms[sku],
+    listPriceOverride: listPrices[sku],
+    targetMarginOverride: targetMargins[sku],
+    laborPct,
+    energyPct,
+    freight,
+    warrantyPct,
+    valuationMethod,
+    activity: activity?.[sku],
+    fixedCosts: skuFixedCost(fixedCostPools, sku, forecasts),
+    channel,
+  });
+
+  // Margin-first ranks SKUs by margin at replacement cost (no stock at all)
+  let claimOrder = [...priority, ...skus.filter(sku => !priority.includes(sku))];
+  if (allocationRule === 'marginFirst') {
+    const noStock = materials.map(m => ({ ...m, onHand: 0 }));
+    const replacementMargin = Object.fromEntries(skus.map(sku => [sku, computeCostsWithInventory(inputsFor(sku, noStock)).marginPct]));
+    claimOrder = [...skus].sort((a, b) => replacementMargin[b] - replacementMargin[a]);
+  }
+
+  // allocation[materialId][sku] = on-hand quantity assigned to that SKU
+  const allocation: Record<string, Record<string, number>> = {};
+  materials.forEach(m => {
+    const reqs = skus.map(sku => (boms[sku].find(l => l.materialId === m.id)?.qty ?? 0) * forecasts[sku] * scrapGrossUp(m));
+    const totalReq = reqs.reduce((sum, r) => sum + r, 0);
+    const available = Math.min(m.onHand, totalReq);
+    allocation[m.id] = {};
+
+    if (allocationRule === 'proRata') {
+      skus.forEach((sku, i) => {
+        allocation[m.id][sku] = totalReq > 0 ? available * reqs[i] / totalReq : 0;
+      });
+    } else {
+      let remaining = available;
+      claimOrder.forEach(sku => {
+        const take = Math.min(reqs[skus.indexOf(sku)], remaining);
+        allocation[m.id][sku] = take;
+        remaining -= take;
+      });
+    }
+  });
+
+  const skuResults = skus.map(sku => ({
+    sku,
+    forecastUnits: forecasts[sku],
+    result: computeCostsWithInventory(inputsFor(sku, materials.map(m => ({ ...m, onHand: allocation[m.id][sku] })))),
+  }));
+
+  // Combined plan nets the full pool; bomQty is the portfolio average per unit
+  const totalUnits = skus.reduce((sum, sku) => sum + forecasts[sku], 0);
+  const procurementPlan: ProcurementPlan[] = materials.map(m => {
+    const lines = skuResults.map(r => r.result.procurementPlan.find(p => p.id === m.id)!);
+    const grossReq = lines.reduce((sum, p) => sum + p.grossReq, 0);
+    const netReq = lines.reduce((sum, p) => sum + p.procureQty, 0);
+    const procureQty = purchases[m.id].procureQty;
+    const spend = procureQty * m.newPrice;
+    const endQty = m.onHand + procureQty;
+    const avgCost = valuedUnitCost(valuationMethod, m, grossReq, procureQty);
+
+    return {
+      id: m.id,
+      name: m.name,
+      uom: m.uom,
+      grossReq,
+      scrapQty: lines.reduce((sum, p) => sum + p.scrapQty, 0),
+      scrapCredit: lines.reduce((sum, p) => sum + p.scrapCredit, 0),
+      onHand: m.onHand,
+      netReq,
+      procureQty,
+      oldCost: m.oldCost,
+      newPrice: inrMaterials.find(x => x.id === m.id)!.newPrice,
+      sourcing: purchases[m.id].sourcing,
+      purchasePrice: m.newPrice,
+      spend,
+      endQty,
+      avgCost,
+      bomQty: totalUnits > 0 ? lines.reduce((sum, p, i) => sum + p.bomQty * skuResults[i].forecastUnits, 0) / totalUnits : 0,
+      ppv: lines.reduce((sum, p) => sum + p.ppv, 0)
+    };
+  });
+
+  const totalSpend = procurementPlan.reduce((sum, p) => sum + p.spend, 0);
+  const revenue = skuResults.reduce((sum, r) => sum + r.result.netRealisation * r.forecastUnits, 0);
+  const totalCost = skuResults.reduce((sum, r) => sum + r.result.totalCost * r.forecastUnits, 0);
+
+  return {
+    skuResults,
+    procurementPlan,
+    allocation,
+    claimOrder,
+    totalSpend,
+    revenue,
+    totalCost,
+    marginPct: revenue > 0 ? (revenue - totalCost) / revenue : 0
+  };
+}
@@ -0,0 +1,148 @@
+import * as XLSX from "xlsx";
+import { parseDateValue, toIsoDate } from "./dates";
+import { normaliseHeader } from "./importExport";
+import { MATERIALS } from "./masterData";
+import { createRandom, gaussian } from "./stats";
+
+// Sample monthly copper price history (₹/kg), oldest first; seeds the price store
+const COPPER_PRICE_HISTORY: Array<{ month: string; price: number }> = [
+  { month: "2023-10", price: 749 }, { month: "2023-11", price: 767 }, { month: "2023-12", price: 774 }, { month: "2024-01", price: 778 }, { month: "2024-02", price: 769 }, { month: "2024-03", price: 769 },
+  { month: "2024-04", price: 792 }, { month: "2024-05", price: 798 }, { month: "2024-06", price: 814 }, { month: "2024-07", price: 814 }, { month: "2024-08", price: 820 }, { month: "2024-09", price: 824 },
+  { month: "2024-10", price: 796 }, { month: "2024-11", price: 822 }, { month: "2024-12", price: 844 }, { month: "2025-01", price: 865 }, { month: "2025-02", price: 839 }, { month: "2025-03", price: 808 },
+  { month: "2025-04", price: 791 }, { month: "2025-05", price: 779 }, { month: "2025-06", price: 780 }, { month: "2025-07", price: 775 }, { month: "2025-08", price: 783 }, { month: "2025-09", price: 771 },
+  { month: "2025-10", price: 781 }, { month: "2025-11", price: 799 }, { month: "2025-12", price: 797 }, { month: "2026-01", price: 843 }, { month: "2026-02", price: 863 }, { month: "2026-03", price: 895 },
+  { month: "2026-04", price: 883 }, { month: "2026-05", price: 863 }, { month: "2026-06", price: 851 }, { month: "2026-07", price: 844 }, { month: "2026-08", price: 853 }, { month: "2026-09", price: 860 },
+];
+
+// Price history store: dated prices per material, persisted to localStorage
+const PRICE_HISTORY_STORAGE_KEY = "stabiliser-simulator.priceHistory";
+
+export interface PricePoint {
+  materialId: string;
+  date: string;   // YYYY-MM-DD
+  price: number;
+}
+
+export type PriceInterval = 'month' | 'week';
+
+// Sample history: copper from the table above, other materials a seeded walk ending near oldCost
+export function samplePriceHistory(): PricePoint[] {
+  const random = createRandom(2024);
+  return MATERIALS.flatMap(m => COPPER_PRICE_HISTORY.map((c, i) => ({
+    materialId: m.id,
+    date: `${c.month}-15`,
+    price: m.id === "M_COPPER"
+      ? c.price
+      : Math.round(m.oldCost * (0.92 + 0.08 * i / (COPPER_PRICE_HISTORY.length - 1)) * (1 + 0.02 * gaussian(random)) * 100) / 100,
+  })));
+}
+
+function isPricePoint(value: unknown): value is PricePoint {
+  const point = value as Partial<PricePoint> | null;
+  return typeof point?.materialId === 'string'
+    && typeof point.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(point.date)
+    && typeof point.price === 'number' && Number.isFinite(point.price);
+}
+
+export function loadPriceHistory(): PricePoint[] {
+  try {
+    const raw = localStorage.getItem(PRICE_HISTORY_STORAGE_KEY);
+    if (!raw) return samplePriceHistory();
+    const stored: unknown = JSON.parse(raw);
+    if (Array.isArray(stored) && stored.every(isPricePoint)) return stored;
+    console.error('Ignoring malformed price history in storage');
+    return samplePriceHistory();
+  } catch (error) {
+    console.error('Error loading price history:', error);
+    return samplePriceHistory();
+  }
+}
+
+export function persistPriceHistory(points: PricePoint[]) {
+  try {
+    localStorage.setItem(PRICE_HISTORY_STORAGE_KEY, JSON.stringify(points));
+  } catch (error) {
+    console.error('Error saving price history:', error);
+  }
+}
+
+/**
+ * Parses a CSV/XLSX sheet (columns: material id, date, price) or a JSON
+ * array of { materialId, date, price }. Rows for unknown materials or with
+ * an unreadable date or price are rejected and counted.
+ */
+export async function parsePriceHistoryFile(file: File, materialIds: string[]) {
+  let records: Array<Record<string, unknown>>;
+  if (file.name.toLowerCase().endsWith('.json')) {
+    records = JSON.parse(await file.text());
+    if (!Array.isArray(records)) throw new Error('JSON price history must be an array');
+  } else {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+    records = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]], { raw: true });
+  }
+
+  const field = (record: Record<string, unknown>, aliases: string[]) => {
+    const key = Object.keys(record).find(k => aliases.includes(normaliseHeader(k)));
+    return key === undefined ? undefined : record[key];
+  };
+
+  const points: PricePoint[] = [];
+  let rejected = 0;
+  records.forEach(record => {
+    const materialId = String(field(record, ["materialid", "material", "id"]) ?? "").trim();
+    const rawDate = field(record, ["date", "pricedate", "month"]);
+    const date = parseDateValue(rawDate);
+    const price = Number(String(field(record, ["price", "newprice", "value"]) ?? "").replace(/,/g, ""));
+    if (!materialIds.includes(materialId) || !date || !Number.isFinite(price) || price <= 0) {
+      rejected++;
+      return;
+    }
+    points.push({ materialId, date, price });
+  });
+  return { points, rejected };
+}
+
+// Imported points replace stored points for the same material and date
+export function mergePriceHistory(existing: PricePoint[], incoming: PricePoint[]) {
+  const key = (p: PricePoint) => `${p.materialId}|${p.date}`;
+  const merged = new Map(existing.map(p => [key(p), p]));
+  incoming.forEach(p => merged.set(key(p), p));
+  return [...merged.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Bucket key: YYYY-MM for months, the Monday (YYYY-MM-DD) for weeks
+function periodKey(isoDate: string, interval: PriceInterval) {
+  if (interval === 'month') return isoDate.slice(0, 7);
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toIsoDate(date);
+}
+
+/**
+ * Average price per period for the chosen materials and date range.
+ * Returns one row per period: { period, [materialId]: avgPrice }.
+ */
+export function queryPriceHistory(points: PricePoint[], { materialIds, from, to, interval }: {
+  materialIds: string[];
+  from?: string;
+  to?: string;
+  interval: PriceInterval;
+}) {
+  const buckets = new Map<string, Record<string, { sum: number; count: number }>>();
+  points
+    .filter(p => materialIds.includes(p.materialId) && (!from || p.date >= from) && (!to || p.date <= to))
+    .forEach(p => {
+      const period = periodKey(p.date, interval);
+      const bucket = buckets.get(period) ?? {};
+      const cell = bucket[p.materialId] ?? { sum: 0, count: 0 };
+      bucket[p.materialId] = { sum: cell.sum + p.price, count: cell.count + 1 };
+      buckets.set(period, bucket);
+    });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, bucket]) => ({
+      period,
+      ...Object.fromEntries(Object.entries(bucket).map(([id, c]) => [id, c.sum / c.count]))
+    }) as { period: string } & Record<string, number>);
+}
@@ -0,0 +1,94 @@
+import { computeCostsWithInventory, CostInputs } from "./costing";
+import { PRODUCTS } from "./masterData";
+
+// Demand response to list price; volume = forecast × (price / list price)^elasticity
+export interface DemandModel {
+  source: 'manual' | 'fitted';
+  elasticity: number;                              // used when source is manual
+  history: Array<{ price: number; units: number }>;  // observed list price and volume, for fitting
+}
+
+export const DEMAND_MODELS: Record<keyof typeof PRODUCTS, DemandModel> = {
+  P100: {
+    source: 'manual',
+    elasticity: -1.8,
+    history: [
+      { price: 5900, units: 11900 }, { price: 6100, units: 11200 }, { price: 6300, units: 10600 },
+      { price: 6500, units: 10000 }, { price: 6800, units: 9300 }, { price: 7100, units: 8600 },
+    ],
+  },
+  P200: { source: 'manual', elasticity: -1.5, history: [] },
+  P300: { source: 'manual', elasticity: -2.2, history: [] },
+};
+
+// Log-log least squares: the slope of ln(units) on ln(price) is the elasticity
+export function fitElasticity(history: Array<{ price: number; units: number }>) {
+  const points = history.filter(h => h.price > 0 && h.units > 0).map(h => ({ x: Math.log(h.price), y: Math.log(h.units) }));
+  if (points.length < 2) return undefined;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const syy = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+  if (sxx === 0) return undefined;
+  return { elasticity: sxy / sxx, r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 1 };
+}
+
+export function demandElasticity(model: DemandModel) {
+  return model.source === 'fitted' ? fitElasticity(model.history)?.elasticity ?? model.elasticity : model.elasticity;
+}
+
+/**
+ * Contribution-maximising list price under a constant-elasticity demand curve.
+ * Every candidate price is re-costed at the volume it would sell, so procurement,
+ * supplier breaks and the moving average all respond. A grid over
+ * [minFactor, maxFactor] × today's price finds the peak, then a golden-section
+ * search refines it between the neighbouring grid points. Each price is costed once.
+ */
+export function optimisePrice(inputs: CostInputs, elasticity: number, { minFactor = 0.6, maxFactor = 1.6, steps = 50 } = {}) {
+  const basePrice = inputs.listPriceOverride ?? PRODUCTS[inputs.sku].listPrice;
+  const evaluated = new Map<number, { price: number; units: number; netRealisation: number; marginPct: number; contribution: number; profit: number }>();
+  const evaluate = (price: number) => {
+    const cached = evaluated.get(price);
+    if (cached) return cached;
+    const units = inputs.forecastUnits * Math.pow(price / basePrice, elasticity);
+    const r = computeCostsWithInventory({ ...inputs, listPriceOverride: price, forecastUnits: units });
+    const contribution = (r.netRealisation - r.variableCost) * units;
+    const point = { price, units, netRealisation: r.netRealisation, marginPct: r.marginPct, contribution, profit: contribution - r.fixedCosts };
+    evaluated.set(price, point);
+    return point;
+  };
+
+  const curve = Array.from({ length: steps + 1 }, (_, i) => evaluate(basePrice * (minFactor + (maxFactor - minFactor) * i / steps)));
+  const peak = curve.reduce((best, p, i) => p.contribution > curve[best].contribution ? i : best, 0);
+
+  let lo = curve[Math.max(0, peak - 1)].price;
+  let hi = curve[Math.min(steps, peak + 1)].price;
+  // Each step keeps one interior point and costs one new one
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = evaluate(hi - ratio * (hi - lo));
+  let b = evaluate(lo + ratio * (hi - lo));
+  for (let i = 0; i < 30 && hi - lo > 0.5; i++) {
+    if (a.contribution >= b.contribution) {
+      hi = b.price;
+      b = a;
+      a = evaluate(hi - ratio * (hi - lo));
+    } else {
+      lo = a.price;
+      a = b;
+      b = evaluate(lo + ratio * (hi - lo));
+    }
+  }
+  const refined = evaluate((lo + hi) / 2);
+  const optimum = refined.contribution >= curve[peak].contribution ? refined : curve[peak];
+
+  const current = evaluate(basePrice);
+  const costPlusPrice = computeCostsWithInventory(inputs).recommendedMrp;
+  return {
+    curve,
+    current,
+    optimum,
+    costPlus: Number.isFinite(costPlusPrice) ? evaluate(costPlusPrice) : undefined,
+    atBound: peak === 0 || peak === steps,
+  };
+}
@@ -0,0 +1,280 @@
+import { activityCosting, applySubstitutions, computeCostsWithInventory, CostInputs, CostResult, defaultChannelWaterfalls, FixedCostPool, materialsInInr, OverheadModel, PriceWaterfall, SalesChannel, skuFixedCost, ValuationMethod } from "./costing";
+import { Currency, DEFAULT_FX, FxSettings } from "./currency";
+import { toIsoDate } from "./dates";
+import { DEFAULT_HEDGE_INSTRUMENT, defaultHedgingStrategy, HedgeInstrument, hedgeBookCover, HedgePosition, HedgingStrategy, strategyHedgeCover } from "./hedging";
+import { BomLine, Material, MATERIALS, Operation, Plant, PLANTS, PRODUCTS, ROUTINGS, SubstitutionRule, Supplier } from "./masterData";
+import { AllocationRule } from "./portfolio";
+import { DEMAND_MODELS, DemandModel } from "./pricing";
+
+// Saved scenarios: the complete editor input state, versioned for localStorage
+export const SCENARIO_SCHEMA_VERSION = 11;
+const SCENARIO_STORAGE_KEY = "stabiliser-simulator.scenarios";
+
+export interface ScenarioInputs {
+  sku: keyof typeof PRODUCTS;
+  forecastUnits: number;
+  materials: Material[];
+  bom: Record<keyof typeof PRODUCTS, BomLine[]>;
+  substitutions: SubstitutionRule[];
+  listPrice: number;
+  targetMargin: number;
+  laborPct: number;
+  energyPct: number;
+  freight: number;
+  warrantyPct: number;
+  valuationMethod: ValuationMethod;
+  hedges: Record<string, HedgingStrategy>;
+  fx: FxSettings;
+  suppliers: Supplier[];
+  overheadModel: OverheadModel;
+  routings: Record<keyof typeof PRODUCTS, Operation[]>;
+  plants: Record<string, Plant>;
+  fixedCostPools: FixedCostPool[];
+  portfolioForecasts: Record<keyof typeof PRODUCTS, number>;
+  salesChannel: SalesChannel;
+  channelWaterfalls: Record<SalesChannel, PriceWaterfall>;
+  demandModels: Record<keyof typeof PRODUCTS, DemandModel>;
+  monthlyDemand: number[];
+  allocationRule: AllocationRule;
+  skuPriority: Array<keyof typeof PRODUCTS>;
+  reportCurrency: Currency;
+  hedgeBook: HedgePosition[];
+}
+
+// Pre-v3 inputs held a single copper strategy (v1 without an instrument, only an avg
+// hedged price); pre-v4 inputs had no FX settings and every material priced in INR;
+// pre-v5 inputs had no supplier master; pre-v6 inputs costed labour and energy as % of DM only;
+// pre-v7 inputs had no fixed costs; pre-v8 inputs realised the list price in full;
+// pre-v9 inputs had no demand models; pre-v10 inputs left out the MRP phasing, the
+// portfolio allocation and the reporting currency; pre-v11 inputs had no hedge book
+type LegacyScenarioInputs = Omit<ScenarioInputs, 'hedges' | 'fx' | 'materials' | 'suppliers' | 'overheadModel' | 'routings' | 'plants' | 'fixedCostPools' | 'portfolioForecasts' | 'salesChannel' | 'channelWaterfalls' | 'demandModels' | 'monthlyDemand' | 'allocationRule' | 'skuPriority' | 'reportCurrency' | 'hedgeBook'> & {
+  hedges?: Record<string, HedgingStrategy>;
+  hedgingStrategy?: Omit<HedgingStrategy, 'instrument'> & { instrument?: HedgeInstrument; avgHedgedPrice?: number };
+  fx?: FxSettings;
+  materials: Array<Omit<Material, 'currency'> & { currency?: Currency }>;
+  suppliers?: Supplier[];
+  overheadModel?: OverheadModel;
+  routings?: Record<keyof typeof PRODUCTS, Operation[]>;
+  plants?: Record<string, Plant>;
+  fixedCostPools?: FixedCostPool[];
+  portfolioForecasts?: Record<keyof typeof PRODUCTS, number>;
+  salesChannel?: SalesChannel;
+  channelWaterfalls?: Record<SalesChannel, PriceWaterfall>;
+  demandModels?: Record<keyof typeof PRODUCTS, DemandModel>;
+  monthlyDemand?: number[];
+  allocationRule?: AllocationRule;
+  skuPriority?: Array<keyof typeof PRODUCTS>;
+  reportCurrency?: Currency;
+  hedgeBook?: HedgePosition[];
+};
+
+export interface SavedScenario {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  savedAt: string;
+  inputs: ScenarioInputs;
+}
+
+// Upgrades a saved scenario one schema version at a time
+export function migrateScenario(scenario: SavedScenario): SavedScenario {
+  let { schemaVersion } = scenario;
+  let inputs = scenario.inputs as unknown as LegacyScenarioInputs;
+
+  // v1/v2 -> v3: the copper strategy becomes the copper entry of the per-material hedges;
+  // a v1 avg hedged price is carried over as a futures contract at that price, and a
+  // scenario saved without a strategy takes the app's unhedged baseline for copper
+  if (schemaVersion === 1 || schemaVersion === 2) {
+    const { hedgingStrategy, ...rest } = inputs;
+    let copper: HedgingStrategy;
+    if (hedgingStrategy) {
+      const { avgHedgedPrice, instrument, ...split } = hedgingStrategy;
+      copper = {
+        ...split,
+        instrument: instrument ?? { ...DEFAULT_HEDGE_INSTRUMENT, strike: avgHedgedPrice || DEFAULT_HEDGE_INSTRUMENT.strike }
+      };
+    } else {
+      const material = inputs.materials?.find(m => m.id === "M_COPPER") ?? MATERIALS.find(m => m.id === "M_COPPER")!;
+      copper = defaultHedgingStrategy(material as Material);
+    }
+    inputs = { ...rest, hedges: { M_COPPER: copper } };
+    schemaVersion = 3;
+  }
+
+  // v3 -> v4: every material was priced in INR
+  if (schemaVersion === 3) {
+    inputs = { ...inputs, fx: inputs.fx ?? DEFAULT_FX, materials: inputs.materials.map(m => ({ ...m, currency: m.currency ?? 'INR' })) };
+    schemaVersion = 4;
+  }
+
+  // v4 -> v5: every material was bought at its newPrice
+  if (schemaVersion === 4) {
+    inputs = { ...inputs, suppliers: inputs.suppliers ?? [] };
+    schemaVersion = 5;
+  }
+
+  // v5 -> v6: overheads were % of DM; the sample routings and plant rates fill in for a later switch
+  if (schemaVersion === 5) {
+    inputs = { ...inputs, overheadModel: inputs.overheadModel ?? 'percent', routings: inputs.routings ?? ROUTINGS, plants: inputs.plants ?? PLANTS };
+    schemaVersion = 6;
+  }
+
+  // v6 -> v7: no fixed costs; the volumes that share plant pools start at the saved SKU's forecast
+  if (schemaVersion === 6) {
+    inputs = {
+      ...inputs,
+      fixedCostPools: inputs.fixedCostPools ?? [],
+      portfolioForecasts: inputs.portfolioForecasts ?? { P100: 0, P200: 0, P300: 0, [inputs.sku]: inputs.forecastUnits },
+    };
+    schemaVersion = 7;
+  }
+
+  // v7 -> v8: the list price was realised in full, i.e. sold ex-works
+  if (schemaVersion === 7) {
+    inputs = { ...inputs, salesChannel: inputs.salesChannel ?? 'exWorks', channelWaterfalls: inputs.channelWaterfalls ?? defaultChannelWaterfalls() };
+    schemaVersion = 8;
+  }
+
+  // v8 -> v9: no demand models were saved; the sample elasticities and histories fill in
+  if (schemaVersion === 8) {
+    inputs = { ...inputs, demandModels: inputs.demandModels ?? DEMAND_MODELS };
+    schemaVersion = 9;
+  }
+
+  // v9 -> v10: the app's defaults stood in: the forecast spread evenly over 12 months,
+  // pro-rata allocation in SKU order, and amounts reported in INR
+  if (schemaVersion === 9) {
+    inputs = {
+      ...inputs,
+      monthlyDemand: inputs.monthlyDemand ?? Array.from({ length: 12 }, () => Math.round(inputs.forecastUnits / 12)),
+      allocationRule: inputs.allocationRule ?? 'proRata',
+      skuPriority: inputs.skuPriority ?? ["P100", "P200", "P300"],
+      reportCurrency: inputs.reportCurrency ?? 'INR',
+    };
+    schemaVersion = 10;
+  }
+
+  // v10 -> v11: the hedge book was not saved, so no positions covered the scenario's purchases
+  if (schemaVersion === 10) {
+    inputs = { ...inputs, hedgeBook: inputs.hedgeBook ?? [] };
+    schemaVersion = 11;
+  }
+
+  return { ...scenario, schemaVersion, inputs: inputs as unknown as ScenarioInputs };
+}
+
+// Older scenarios are migrated; unknown schema versions are dropped rather than half-loaded
+export function loadScenarios(): SavedScenario[] {
+  try {
+    const raw = localStorage.getItem(SCENARIO_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: SavedScenario[] = JSON.parse(raw);
+    const current = parsed.map(migrateScenario).filter(s => s.schemaVersion === SCENARIO_SCHEMA_VERSION);
+    if (current.length < parsed.length) {
+      console.warn(`Skipped ${parsed.length - current.length} saved scenario(s) with an unsupported schema version`);
+    }
+    return current;
+  } catch (error) {
+    console.error('Error loading saved scenarios:', error);
+    return [];
+  }
+}
+
+export function persistScenarios(scenarios: SavedScenario[]) {
+  try {
+    localStorage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(scenarios));
+  } catch (error) {
+    console.error('Error saving scenarios:', error);
+  }
+}
+
+// Cost model inputs for a saved scenario, with its substitutions applied; its hedge
+// book's open positions as of asOf and its planned hedges cover the purchases
+export function scenarioCostInputs(inputs: ScenarioInputs, asOf = toIsoDate(new Date())): CostInputs {
+  const materials = materialsInInr(inputs.materials, inputs.fx);
+  const bookCover = hedgeBookCover(inputs.hedgeBook, materials, asOf);
+  const costInputs: CostInputs = {
+    sku: inputs.sku,
+    forecastUnits: inputs.forecastUnits,
+    materials: inputs.materials,
+    bom: applySubstitutions(inputs.bom[inputs.sku], inputs.substitutions, inputs.materials),
+    listPriceOverride: inputs.listPrice,
+    targetMarginOverride: inputs.targetMargin,
+    laborPct: inputs.laborPct,
+    energyPct: inputs.energyPct,
+    freight: inputs.freight,
+    warrantyPct: inputs.warrantyPct,
+    valuationMethod: inputs.valuationMethod,
+    hedgeCover: bookCover,
+    fx: inputs.fx,
+    suppliers: inputs.suppliers,
+    activity: inputs.overheadModel === 'activity' ? activityCosting(inputs.sku, inputs.routings, inputs.plants) : undefined,
+    fixedCosts: skuFixedCost(inputs.fixedCostPools, inputs.sku, { ...inputs.portfolioForecasts, [inputs.sku]: inputs.forecastUnits }),
+    channel: inputs.channelWaterfalls[inputs.salesChannel],
+  };
+  const { procurementPlan } = computeCostsWithInventory(costInputs);
+  return { ...costInputs, hedgeCover: strategyHedgeCover(inputs.hedges, materials, procurementPlan, bookCover, asOf) };
+}
+
+interface MaterialDiff {
+  id: string;
+  name: string;
+  newPrice: [number, number];
+  bomQty: [number, number];
+  onHand: [number, number];
+  avgCost: [number, number];
+  contribution: [number, number];
+}
+
+/**
+ * Per-material and per-overhead differences between two scenarios, plus a
+ * margin bridge. Margin = net realisation - total cost, so the bridge steps
+ * sum exactly to the change in margin per unit.
+ */
+export function diffScenarioResults(base: CostResult, compare: CostResult, materials: [Material[], Material[]]) {
+  const ids = [...new Set([...base.procurementPlan, ...compare.procurementPlan].map(p => p.id))];
+  const materialDiffs: MaterialDiff[] = ids
+    .map(id => {
+      const a = base.procurementPlan.find(p => p.id === id);
+      const b = compare.procurementPlan.find(p => p.id === id);
+      const onHand = (list: Material[]) => list.find(m => m.id === id)?.onHand ?? 0;
+      return {
+        id,
+        name: a?.name ?? b?.name ?? id,
+        newPrice: [a?.newPrice ?? 0, b?.newPrice ?? 0],
+        bomQty: [a?.bomQty ?? 0, b?.bomQty ?? 0],
+        onHand: [onHand(materials[0]), onHand(materials[1])],
+        avgCost: [a?.avgCost ?? 0, b?.avgCost ?? 0],
+        contribution: [(a?.bomQty ?? 0) * (a?.avgCost ?? 0), (b?.bomQty ?? 0) * (b?.avgCost ?? 0)],
+      } as MaterialDiff;
+    })
+    .filter(d => d.bomQty[0] > 0 || d.bomQty[1] > 0);
+
+  const overheadDiffs = [
+    { label: "Labor", values: [base.labor, compare.labor] },
+    { label: "Energy", values: [base.energy, compare.energy] },
+    { label: "Freight", values: [base.freight, compare.freight] },
+    { label: "Warranty", values: [base.warranty, compare.warranty] },
+    { label: "Purchase Price Variance", values: [base.purchasePriceVariance, compare.purchasePriceVariance] },
+    { label: "Scrap Loss", values: [base.scrapLoss, compare.scrapLoss] },
+    { label: "Scrap Credit", values: [-base.scrapCredit, -compare.scrapCredit] },
+    { label: "Fixed Cost Absorption", values: [base.fixedCost, compare.fixedCost] },
+  ];
+
+  // Each material's cost change splits into a quantity effect and a cost effect
+  const bridge = [
+    { driver: "Net Realisation", delta: compare.netRealisation - base.netRealisation },
+    ...materialDiffs.flatMap(d => [
+      { driver: `${d.name.split(' ')[0]} qty`, delta: -(d.bomQty[1] - d.bomQty[0]) * d.avgCost[0] },
+      { driver: `${d.name.split(' ')[0]} cost`, delta: -d.bomQty[1] * (d.avgCost[1] - d.avgCost[0]) },
+    ]),
+    ...overheadDiffs.map(o => ({ driver: o.label, delta: -(o.values[1] - o.values[0]) })),
+  ].filter(step => Math.abs(step.delta) >= 0.005);
+
+  return {
+    materialDiffs,
+    overheadDiffs,
+    bridge,
+    marginDelta: compare.marginInr - base.marginInr
+  };
+}
@@ -0,0 +1,244 @@
+import { ActivityCosting, computeCostsWithInventory, CostInputs } from "./costing";
+import { DEFAULT_FX } from "./currency";
+import { PRODUCTS } from "./masterData";
+import { scaleSupplierQuotes } from "./sourcing";
+import { createRandom, gaussian, summarise } from "./stats";
+
+export const DEFAULT_VOLATILITY: Record<string, number> = {
+  M_COPPER: 0.15,
+  M_ALUM: 0.12,
+  M_STEEL_LAM: 0.08,
+  M_SOLDER: 0.10,
+  M_ABS: 0.06,
+};
+
+export interface MonteCarloSettings {
+  iterations: number;
+  seed: number;
+  volatility: Record<string, number>;   // annualised-style sigma per material, 0 = fixed price
+  correlation: { a: string; b: string; rho: number };
+}
+
+/**
+ * Draws newPrice for every material from a lognormal around today's price
+ * (mean-preserving), with one correlated pair, and reruns the cost model.
+ * Supplier quotes move with their material's draw.
+ */
+export function runMonteCarlo(inputs: CostInputs, { iterations, seed, volatility, correlation }: MonteCarloSettings) {
+  const random = createRandom(seed);
+  const rho = Math.min(1, Math.max(-1, correlation.rho));
+  const totalCost: number[] = [];
+  const marginPct: number[] = [];
+  const recommendedSP: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const shocks: Record<string, number> = {};
+    inputs.materials.forEach(m => { shocks[m.id] = gaussian(random); });
+    if (correlation.a in shocks && correlation.b in shocks) {
+      shocks[correlation.b] = rho * shocks[correlation.a] + Math.sqrt(1 - rho * rho) * shocks[correlation.b];
+    }
+
+    const ratios: Record<string, number> = {};
+    inputs.materials.forEach(m => {
+      const sigma = volatility[m.id] ?? 0;
+      if (sigma > 0) ratios[m.id] = Math.exp(sigma * shocks[m.id] - sigma * sigma / 2);
+    });
+    const materials = inputs.materials.map(m => m.id in ratios ? { ...m, newPrice: m.newPrice * ratios[m.id] } : m);
+    const r = computeCostsWithInventory({ ...inputs, materials, suppliers: scaleSupplierQuotes(inputs.suppliers, ratios) });
+    totalCost.push(r.totalCost);
+    marginPct.push(r.marginPct);
+    recommendedSP.push(r.recommendedSP);
+  }
+
+  const targetMargin = computeCostsWithInventory(inputs).targetMargin;
+  return {
+    iterations,
+    totalCost,
+    marginPct,
+    recommendedSP,
+    stats: {
+      totalCost: summarise(totalCost),
+      marginPct: summarise(marginPct),
+      recommendedSP: summarise(recommendedSP)
+    },
+    targetMargin,
+    probBelowTarget: marginPct.filter(m => m < targetMargin).length / (iterations || 1)
+  };
+}
+
+// A scalar model input that analyses can read and overwrite
+interface CostDriver {
+  id: string;
+  label: string;
+  get: (inputs: CostInputs) => number;
+  set: (inputs: CostInputs, value: number) => CostInputs;
+}
+
+// Plant rates and total routing minutes and kWh; totals scale every operation proportionally
+function activityDrivers(): CostDriver[] {
+  const withActivity = (i: CostInputs, patch: (a: ActivityCosting) => ActivityCosting) => ({ ...i, activity: i.activity && patch(i.activity) });
+  const total = (i: CostInputs, field: 'stdMinutes' | 'kwh') => (i.activity?.routing ?? []).reduce((sum, op) => sum + op[field], 0);
+  const scaleTo = (field: 'stdMinutes' | 'kwh') => (i: CostInputs, value: number) => {
+    const current = total(i, field);
+    return withActivity(i, a => ({ ...a, routing: a.routing.map(op => ({ ...op, [field]: current > 0 ? op[field] * value / current : 0 })) }));
+  };
+
+  return [
+    { id: "labourRate", label: "Labour rate / hour", get: i => i.activity?.labourRatePerHour ?? 0, set: (i, value) => withActivity(i, a => ({ ...a, labourRatePerHour: value })) },
+    { id: "powerTariff", label: "Power tariff / kWh", get: i => i.activity?.powerTariff ?? 0, set: (i, value) => withActivity(i, a => ({ ...a, powerTariff: value })) },
+    { id: "stdMinutes", label: "Standard minutes / unit", get: i => total(i, 'stdMinutes'), set: scaleTo('stdMinutes') },
+    { id: "kwh", label: "kWh / unit", get: i => total(i, 'kwh'), set: scaleTo('kwh') },
+  ];
+}
+
+// Every flexible input of computeCostsWithInventory, including per-material price and BOM qty
+export function costDrivers(inputs: CostInputs): CostDriver[] {
+  const product = PRODUCTS[inputs.sku];
+  const bomMaterials = inputs.materials.filter(m => inputs.bom.some(l => l.materialId === m.id && l.qty > 0));
+
+  return [
+    ...bomMaterials.flatMap(m => [
+      {
+        id: `price:${m.id}`,
+        label: `${m.name} price`,
+        get: (i: CostInputs) => i.materials.find(x => x.id === m.id)?.newPrice ?? 0,
+        set: (i: CostInputs, value: number) => {
+          const current = i.materials.find(x => x.id === m.id)?.newPrice ?? 0;
+          return {
+            ...i,
+            materials: i.materials.map(x => x.id === m.id ? { ...x, newPrice: value } : x),
+            suppliers: scaleSupplierQuotes(i.suppliers, { [m.id]: current > 0 ? value / current : 1 }),
+          };
+        },
+      },
+      ...(m.scrap ? [{
+        id: `scrap:${m.id}`,
+        label: `${m.name} scrap loss %`,
+        get: (i: CostInputs) => i.materials.find(x => x.id === m.id)?.scrap?.lossPct ?? 0,
+        set: (i: CostInputs, value: number) => ({ ...i, materials: i.materials.map(x => x.id === m.id && x.scrap ? { ...x, scrap: { ...x.scrap, lossPct: value } } : x) }),
+      }] : []),
+      {
+        id: `bomQty:${m.id}`,
+        label: `${m.name} BOM qty`,
+        get: (i: CostInputs) => i.bom.find(l => l.materialId === m.id)?.qty ?? 0,
+        set: (i: CostInputs, value: number) => ({ ...i, bom: i.bom.map(l => l.materialId === m.id ? { ...l, qty: value } : l) }),
+      },
+    ]),
+    ...[...new Set(bomMaterials.map(m => m.currency))].filter(c => c !== 'INR').map((currency): CostDriver => ({
+      id: `fx:${currency}`,
+      label: `INR per ${currency}`,
+      get: i => (i.fx ?? DEFAULT_FX).rates[currency],
+      set: (i, value) => {
+        const fx = i.fx ?? DEFAULT_FX;
+        return { ...i, fx: { ...fx, rates: { ...fx.rates, [currency]: value } } };
+      },
+    })),
+    { id: "forecastUnits", label: "Forecast units", get: i => i.forecastUnits, set: (i, value) => ({ ...i, forecastUnits: value }) },
+    ...(inputs.activity ? activityDrivers() : [
+      { id: "laborPct", label: "Labor % of DM", get: (i: CostInputs) => i.laborPct, set: (i: CostInputs, value: number) => ({ ...i, laborPct: value }) },
+      { id: "energyPct", label: "Energy % of DM", get: (i: CostInputs) => i.energyPct, set: (i: CostInputs, value: number) => ({ ...i, energyPct: value }) },
+    ]),
+    ...(inputs.fixedCosts ? [{ id: "fixedCosts", label: "Fixed costs", get: (i: CostInputs) => i.fixedCosts ?? 0, set: (i: CostInputs, value: number) => ({ ...i, fixedCosts: value }) }] : []),
+    { id: "freight", label: "Freight / unit", get: i => i.freight, set: (i, value) => ({ ...i, freight: value }) },
+    { id: "warrantyPct", label: "Warranty % of SP", get: i => i.warrantyPct, set: (i, value) => ({ ...i, warrantyPct: value }) },
+    { id: "listPrice", label: "List price", get: i => i.listPriceOverride ?? product.listPrice, set: (i, value) => ({ ...i, listPriceOverride: value }) },
+  ];
+}
+
+/**
+ * One-at-a-time sensitivity: flex each driver by ±flexPct and record the
+ * margin and recommended SP at both ends. Rows are ranked by margin swing.
+ */
+export function runSensitivity(inputs: CostInputs, flexPct: number) {
+  const base = computeCostsWithInventory(inputs);
+
+  const rows = costDrivers(inputs).map(driver => {
+    const value = driver.get(inputs);
+    const low = computeCostsWithInventory(driver.set(inputs, value * (1 - flexPct)));
+    const high = computeCostsWithInventory(driver.set(inputs, value * (1 + flexPct)));
+    return {
+      id: driver.id,
+      label: driver.label,
+      value,
+      low: { marginPct: low.marginPct, recommendedSP: low.recommendedSP },
+      high: { marginPct: high.marginPct, recommendedSP: high.recommendedSP },
+      marginSwing: Math.abs(high.marginPct - low.marginPct),
+      spSwing: Math.abs(high.recommendedSP - low.recommendedSP),
+    };
+  });
+
+  return {
+    base,
+    rows: rows.sort((a, b) => b.marginSwing - a.marginSwing || b.spSwing - a.spSwing)
+  };
+}
+
+export type GoalSeekMetric = 'marginPct' | 'totalCost' | 'recommendedSP';
+
+export const GOAL_SEEK_METRICS: Record<GoalSeekMetric, string> = {
+  marginPct: "Margin %",
+  totalCost: "Total Cost",
+  recommendedSP: "Recommended SP",
+};
+
+type GoalSeekResult =
+  | { status: 'solved'; value: number; achieved: number; exact: boolean; iterations: number }
+  | { status: 'noSolution'; searched: [number, number]; closest: { value: number; achieved: number } };
+
+/**
+ * Finds the driver value at which metric hits target. The bracket grows
+ * geometrically either side of today's value (inputs never go negative) until
+ * the metric crosses the target, then bisection closes in on each side's first
+ * crossing. Steps in the model, such as supplier price breaks or fixed costs
+ * vanishing at zero volume, can jump over the target; a smooth crossing is
+ * preferred, else the nearest threshold is returned with exact = false.
+ */
+export function goalSeek(inputs: CostInputs, driver: CostDriver, metric: GoalSeekMetric, target: number, { maxExpansions = 40, maxIterations = 100 } = {}): GoalSeekResult {
+  type Point = { x: number; gap: number };
+  const evaluate = (x: number): Point => ({ x, gap: computeCostsWithInventory(driver.set(inputs, x))[metric] - target });
+  const tolerance = metric === 'marginPct' ? 1e-6 : 1e-4 * Math.max(1, Math.abs(target));
+  const start = evaluate(driver.get(inputs));
+  if (Math.abs(start.gap) <= tolerance) return { status: 'solved', value: start.x, achieved: target + start.gap, exact: true, iterations: 0 };
+
+  // First crossing walking away from today's value in one direction
+  const step = Math.max(Math.abs(start.x) * 0.05, 1e-3);
+  let closest = start;
+  const walk = (direction: 1 | -1) => {
+    let prev = start;
+    for (let k = 0; k < maxExpansions; k++) {
+      if (direction < 0 && prev.x <= 0) break;
+      const next = evaluate(Math.max(0, start.x + direction * step * 2 ** k));
+      if (Math.abs(next.gap) < Math.abs(closest.gap)) closest = next;
+      if (Math.sign(next.gap) !== Math.sign(prev.gap)) return { bracket: [prev, next] as [Point, Point], reached: next.x };
+      prev = next;
+    }
+    return { bracket: undefined, reached: prev.x };
+  };
+
+  const bisect = ([a, b]: [Point, Point]) => {
+    let [lo, hi] = a.x < b.x ? [a, b] : [b, a];
+    let iterations = 0;
+    while (iterations < maxIterations && hi.x - lo.x > 1e-9 * Math.max(1, Math.abs(hi.x))) {
+      iterations++;
+      const mid = evaluate((lo.x + hi.x) / 2);
+      if (Math.abs(mid.gap) <= tolerance) return { point: mid, iterations };
+      if (Math.sign(mid.gap) === Math.sign(lo.gap)) lo = mid;
+      else hi = mid;
+    }
+    return { point: Math.abs(lo.gap) <= Math.abs(hi.gap) ? lo : hi, iterations };
+  };
+
+  const up = walk(1);
+  const down = walk(-1);
+  const solutions = [up.bracket, down.bracket]
+    .filter((b): b is [Point, Point] => b !== undefined)
+    .map(bisect)
+    .map(({ point, iterations }) => ({ point, iterations, exact: Math.abs(point.gap) <= tolerance }))
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || Math.abs(a.point.x - start.x) - Math.abs(b.point.x - start.x));
+
+  if (solutions.length === 0) {
+    return { status: 'noSolution', searched: [down.reached, up.reached], closest: { value: closest.x, achieved: target + closest.gap } };
+  }
+  const { point, iterations, exact } = solutions[0];
+  return { status: 'solved', value: point.x, achieved: target + point.gap, exact, iterations };
+}
@@ -0,0 +1,146 @@
+import { Currency, FxSettings, inrRate } from "./currency";
+import { Supplier } from "./masterData";
+
+// Unit price in the supplier's currency for an order of qty; below the first tier the first tier applies
+export function breakPrice(supplier: Supplier, qty: number) {
+  const tiers = [...supplier.priceBreaks].sort((a, b) => a.minQty - b.minQty);
+  return (tiers.filter(t => t.minQty <= qty).pop() ?? tiers[0])?.price ?? 0;
+}
+
+// Requirement rounded up to the MOQ and then to whole packs
+export function supplierOrderQty(supplier: Supplier, qty: number) {
+  if (qty <= 0) return 0;
+  const pack = supplier.packSize > 0 ? supplier.packSize : 1;
+  return Math.ceil(Math.max(qty, supplier.moq) / pack) * pack;
+}
+
+interface SupplierAllocation {
+  supplierId: string;  // empty for volume no supplier could take
+  name: string;
+  qty: number;
+  unitPrice: number;   // ₹/UOM at the tier the order reaches
+  spend: number;
+  leadTimeMonths: number;
+}
+
+export interface SourcingPlan {
+  allocations: SupplierAllocation[];
+  qty: number;              // ordered quantity, after MOQ and pack rounding
+  spend: number;
+  avgPrice: number;         // ₹/UOM across the orders
+  leadTimeBreach: boolean;  // no supplier delivers within the material's lead time
+}
+
+function supplierAllocation(supplier: Supplier, qty: number, fx: FxSettings): SupplierAllocation {
+  const unitPrice = breakPrice(supplier, qty) * inrRate(supplier.currency, fx);
+  return { supplierId: supplier.id, name: supplier.name, qty, unitPrice, spend: qty * unitPrice, leadTimeMonths: supplier.leadTimeMonths };
+}
+
+/**
+ * Cheapest way to buy qty from a material's suppliers. Suppliers slower than
+ * maxLeadTimeMonths are used only when none is fast enough. Every combination
+ * of suppliers is tried: all but the last take as many whole packs as their
+ * capacity allows, cheapest first, and the last rounds the remainder up to its
+ * MOQ and pack. Volume beyond total capacity is bought at fallbackPrice.
+ */
+function searchSourcing(suppliers: Supplier[], qty: number, fx: FxSettings, maxLeadTimeMonths: number, fallbackPrice: number): SourcingPlan {
+  const inTime = suppliers.filter(s => s.leadTimeMonths <= maxLeadTimeMonths);
+  const leadTimeBreach = inTime.length === 0;
+  const inrPrice = (s: Supplier, q: number) => breakPrice(s, q) * inrRate(s.currency, fx);
+  // Combinations grow as 2^n, so only the cheapest few suppliers are considered
+  const candidates = (leadTimeBreach ? suppliers : inTime)
+    .slice()
+    .sort((a, b) => inrPrice(a, qty) - inrPrice(b, qty))
+    .slice(0, 6);
+
+  const plan = (allocations: SupplierAllocation[]): SourcingPlan => {
+    const ordered = allocations.reduce((sum, a) => sum + a.qty, 0);
+    const spend = allocations.reduce((sum, a) => sum + a.spend, 0);
+    return { allocations, qty: ordered, spend, avgPrice: ordered > 0 ? spend / ordered : inrPrice(candidates[0], candidates[0].moq), leadTimeBreach };
+  };
+
+  if (qty <= 0) return plan([]);
+
+  let best: SourcingPlan | undefined;
+  for (let mask = 1; mask < 1 << candidates.length; mask++) {
+    const group = candidates.filter((_, i) => mask & (1 << i));
+    const allocations: SupplierAllocation[] = [];
+    let remaining = qty;
+    let feasible = true;
+    group.forEach((s, i) => {
+      if (!feasible) return;
+      const cap = s.capacity ?? Infinity;
+      const pack = s.packSize > 0 ? s.packSize : 1;
+      const take = i === group.length - 1
+        ? supplierOrderQty(s, remaining)
+        : Math.floor(Math.min(cap, remaining) / pack) * pack;
+      if (remaining <= 0 || take < s.moq || take <= 0 || take > cap) {
+        feasible = false;
+        return;
+      }
+      allocations.push(supplierAllocation(s, take, fx));
+      remaining -= take;
+    });
+    if (!feasible) continue;
+    const candidate = plan(allocations);
+    if (!best || candidate.spend < best.spend - 1e-6 || (Math.abs(candidate.spend - best.spend) <= 1e-6 && candidate.qty < best.qty)) {
+      best = candidate;
+    }
+  }
+  if (best) return best;
+
+  // Not enough capacity: fill every supplier, cheapest first, and buy the shortfall at fallbackPrice
+  const allocations: SupplierAllocation[] = [];
+  let remaining = qty;
+  candidates.forEach(s => {
+    const pack = s.packSize > 0 ? s.packSize : 1;
+    const take = Math.floor(Math.min(s.capacity ?? Infinity, remaining) / pack) * pack;
+    if (take > 0 && take >= s.moq) {
+      allocations.push(supplierAllocation(s, take, fx));
+      remaining -= take;
+    }
+  });
+  if (remaining > 0) {
+    allocations.push({ supplierId: "", name: "Unsourced", qty: remaining, unitPrice: fallbackPrice, spend: remaining * fallbackPrice, leadTimeMonths: 0 });
+  }
+  return plan(allocations);
+}
+
+// Sourcing plans in units of the fallback price, keyed by requirement and normalised quotes
+const sourcingCache = new Map<string, SourcingPlan>();
+
+/**
+ * Memoised searchSourcing; undefined when the material has no suppliers.
+ * Scaling every quote and the fallback price by one factor, as Monte Carlo
+ * draws and price drivers do, leaves the allocation unchanged, so plans are
+ * cached relative to the fallback price and rescaled on the way out.
+ */
+export function sourceRequirement(suppliers: Supplier[], qty: number, fx: FxSettings, maxLeadTimeMonths: number, fallbackPrice: number): SourcingPlan | undefined {
+  if (suppliers.length === 0) return undefined;
+  const unit = fallbackPrice > 0 ? fallbackPrice : 1;
+  const normalised = suppliers.map(s => ({
+    ...s,
+    currency: 'INR' as Currency,
+    priceBreaks: s.priceBreaks.map(t => ({ minQty: t.minQty, price: Number((t.price * inrRate(s.currency, fx) / unit).toPrecision(12)) })),
+  }));
+  const key = JSON.stringify([qty, maxLeadTimeMonths, fallbackPrice > 0, normalised.map(s => [s.id, s.name, s.moq, s.packSize, s.leadTimeMonths, s.capacity ?? null, s.priceBreaks])]);
+  let plan = sourcingCache.get(key);
+  if (!plan) {
+    if (sourcingCache.size >= 2000) sourcingCache.clear();
+    plan = searchSourcing(normalised, qty, fx, maxLeadTimeMonths, fallbackPrice > 0 ? 1 : 0);
+    sourcingCache.set(key, plan);
+  }
+  return {
+    ...plan,
+    allocations: plan.allocations.map(a => ({ ...a, unitPrice: a.unitPrice * unit, spend: a.spend * unit })),
+    spend: plan.spend * unit,
+    avgPrice: plan.avgPrice * unit,
+  };
+}
+
+// Scales each material's supplier quotes by its price ratio, so price moves carry through to sourcing
+export function scaleSupplierQuotes(suppliers: Supplier[] | undefined, ratios: Record<string, number>) {
+  return suppliers?.map(s => s.materialId in ratios
+    ? { ...s, priceBreaks: s.priceBreaks.map(t => ({ ...t, price: t.price * ratios[s.materialId] })) }
+    : s);
+}